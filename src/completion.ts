@@ -0,0 +1,267 @@
+import { CLOSURE_EVALUATE_METHOD, KEYWORDS } from './constants'
+import { getPotentiallyUninitializedLazy } from './decorators'
+import { isNamedSingleton, literalValueToClass, parentModule } from './helpers'
+import { List } from './extensions'
+import { linkSentenceInNode, unlinkSentence } from './linker'
+import { Class, Entity, Environment, Expression, Field, Literal, Method, Mixin, Module, Name, New, Node, Package, Parameter, Reference, Self, Singleton, Variable } from './model'
+import * as parse from './parser'
+import { inferTypes } from './typeSystem/constraintBasedTypeSystem'
+import { WollokModuleType, WollokType, WollokUnionType } from './typeSystem/wollokTypes'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type CompletionKind = 'variable' | 'parameter' | 'field' | 'class' | 'object' | 'mixin' | 'package' | 'keyword' | 'method'
+
+export type CompletionCandidate = {
+  name: Name
+  /** Text to show in the list of candidates: the name, followed by the parameters for methods. */
+  label: string
+  kind: CompletionKind
+  /** Text to insert, in the snippet syntax of VS Code and the LSP: each parameter is a `${n:name}` placeholder. */
+  snippet: string
+  /** Fully qualified name of the entity, or of the module that declares the method or field. */
+  detail?: string
+  node?: Node
+}
+
+/** Part of the text the candidates complete: the name being typed, and the receiver of the message, if it is one. */
+export type CompletionContext = {
+  prefix: string
+  receiver?: { text: string, start: number, end: number }
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TEXT
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const NAME_CHARACTER = /[\p{L}\p{N}_]/u
+const PREFIX = /[\p{L}\p{N}_]*$/u
+const NEW_BEFORE = new RegExp(`(^|[^\\p{L}\\p{N}_])${KEYWORDS.NEW}\\s+$`, 'u')
+const DELIMITERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+
+/** Index of the delimiter that opens the one closed at the given index, or -1 if it is not opened. */
+const openingDelimiter = (text: string, closingIndex: number): number => {
+  const closed: string[] = []
+  for (let index = closingIndex; index >= 0; index--) {
+    const char = text[index]
+    if (DELIMITERS[char]) closed.push(DELIMITERS[char])
+    else if (char === closed[closed.length - 1]) {
+      closed.pop()
+      if (!closed.length) return index
+    }
+  }
+  return -1
+}
+
+/** Start of the expression that ends at the given index, going back over names, sends, literals and `new`. */
+const expressionStart = (text: string, end: number): number => {
+  let start = end
+  while (start > 0) {
+    const char = text[start - 1]
+    if (NAME_CHARACTER.test(char) || char === '.') start--
+    else if (DELIMITERS[char]) {
+      start = openingDelimiter(text, start - 1)
+      if (start < 0) return end
+    } else if (char === '"' || char === '\'') {
+      start = text.lastIndexOf(char, start - 2)
+      if (start < 0) return end
+    } else break
+  }
+
+  const newKeyword = NEW_BEFORE.exec(text.slice(0, start))
+  return newKeyword ? newKeyword.index + newKeyword[1].length : start
+}
+
+/** What the text completes at the given offset. Names right after a `.` are messages sent to the expression before it. */
+export const completionContext = (text: string, offset: number): CompletionContext => {
+  const before = text.slice(0, offset)
+  const prefix = PREFIX.exec(before)![0]
+  const dot = before.length - prefix.length - 1
+  if (before[dot] !== '.' || before[dot - 1] === '.') return { prefix }
+
+  const start = expressionStart(before, dot)
+  return start < dot ? { prefix, receiver: { text: before.slice(start, dot), start, end: dot } } : { prefix }
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// COMPLETION
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Candidates to complete the text of the file at the given offset, best first. The scope is taken from the node of the
+ * linked environment that contains the offset, so the environment should come from a recent version of the content.
+ */
+export const completionsAt = (environment: Environment, fileName: string, content: string, offset: number): List<CompletionCandidate> => {
+  const filePackage = environment.descendants.find((node): node is Package => node.is(Package) && node.fileName === fileName)
+  return completions(filePackage ? nodeAt(filePackage, offset) : environment, completionContext(content, offset), offset)
+}
+
+/** Candidates to complete a partial REPL line at the given offset (by default, its end), best first. */
+export const replCompletions = (environment: Environment, line: string, offset = line.length): List<CompletionCandidate> =>
+  completions(environment.replNode(), completionContext(line, offset))
+
+const completions = (node: Node, { prefix, receiver }: CompletionContext, offset?: number): List<CompletionCandidate> => {
+  const candidates = receiver ? messageCandidates(node, receiver) : [...scopeCandidates(node, offset), ...keywordCandidates()]
+  const lowerPrefix = prefix.toLowerCase()
+  const matching = candidates.filter(candidate => candidate.name.toLowerCase().startsWith(lowerPrefix))
+  const rank = (candidate: CompletionCandidate) => candidate.name.startsWith(prefix) ? 0 : 1
+
+  // Sorting is stable, so candidates with the same rank keep the order of relevance they were collected in
+  return [...matching].sort((one, other) => rank(one) - rank(other))
+}
+
+/** Deepest node of the package whose source contains the offset. */
+const nodeAt = (root: Package, offset: number): Node => {
+  let found: Node = root
+  root.forEach(node => {
+    const { sourceMap } = node
+    if (sourceMap && sourceMap.start.offset <= offset && offset <= sourceMap.end.offset && node.ancestors.includes(found)) found = node
+  })
+  return found
+}
+
+// ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+// SCOPE
+// ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Names visible from the node, innermost first: locals and parameters, fields (inherited ones included), entities of
+ * the package and its imports and the global entities. Inner names hide outer ones, and local variables are only
+ * visible once declared.
+ */
+const scopeCandidates = (node: Node, offset?: number): List<CompletionCandidate> => {
+  const seen = new Set<Name>()
+  const candidates: CompletionCandidate[] = []
+  const add = (name: Name, target: Node) => {
+    const candidate = referenceCandidate(name, target)
+    if (!candidate || seen.has(name)) return
+    seen.add(name)
+    candidates.push(candidate)
+  }
+
+  for (const scopeNode of [node, ...node.ancestors]) {
+    const contributions: List<[Name, Node]> =
+      scopeNode.is(Module) ? scopeNode.allFields.map(field => [field.name, field])
+      : scopeNode.is(Package) ? [...scopeNode.scope.localContributions(), ...scopeNode.scope.includedContributions()]
+      : scopeNode.scope?.localContributions() ?? []
+
+    for (const [name, target] of contributions) {
+      const declaredLater = target.is(Variable) && !target.isAtPackageLevel && offset !== undefined && target.sourceMap && target.sourceMap.start.offset >= offset
+      if (!declaredLater) add(name, target)
+    }
+  }
+
+  return candidates
+}
+
+const referenceCandidate = (name: Name, target: Node): CompletionCandidate | undefined => {
+  const kind: CompletionKind | undefined =
+    target.is(Variable) ? 'variable'
+    : target.is(Parameter) ? 'parameter'
+    : target.is(Field) ? 'field'
+    : target.is(Class) ? 'class'
+    : isNamedSingleton(target) ? 'object'
+    : target.is(Mixin) ? 'mixin'
+    : target.is(Package) ? 'package'
+    : undefined
+  if (!kind) return undefined
+
+  const detail = target.is(Entity) && (!target.is(Variable) || target.isAtPackageLevel) ? target.fullyQualifiedName
+    : target.is(Field) ? target.parent.fullyQualifiedName
+    : undefined
+  return { name, label: name, kind, snippet: name, ...detail ? { detail } : {}, node: target }
+}
+
+const keywordCandidates = (): List<CompletionCandidate> =>
+  [...new Set(Object.values(KEYWORDS))].map(keyword => ({ name: keyword, label: keyword, kind: 'keyword', snippet: keyword }))
+
+// ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+// MESSAGES
+// ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Messages the receiver understands, the ones of its most specific modules first. Receivers that can not be resolved
+ * are assumed to understand the messages of Object.
+ */
+const messageCandidates = (node: Node, receiver: NonNullable<CompletionContext['receiver']>): List<CompletionCandidate> => {
+  const modules = receiverModules(node, receiver)
+  const methods = (modules.length ? modules : [node.environment.objectClass]).flatMap(module => module.allMethods)
+  const seen = new Set<string>()
+
+  return methods.flatMap(method => {
+    const signature = `${method.name}/${method.parameters.length}`
+    if (seen.has(signature) || method.name === CLOSURE_EVALUATE_METHOD) return []
+    seen.add(signature)
+    return [methodCandidate(method)]
+  })
+}
+
+const methodCandidate = (method: Method): CompletionCandidate => {
+  const parameterNames = method.parameters.map(parameter => parameter.name)
+  return {
+    name: method.name,
+    label: `${method.name}(${method.parameters.map(parameter => `${parameter.isVarArg ? '...' : ''}${parameter.name}`).join(', ')})`,
+    kind: 'method',
+    snippet: `${method.name}(${parameterNames.map((name, index) => `\${${index + 1}:${name}}`).join(', ')})`,
+    detail: method.parent.fullyQualifiedName,
+    node: method,
+  }
+}
+
+const receiverModules = (node: Node, receiver: NonNullable<CompletionContext['receiver']>): List<Module> => {
+  const parsed = parse.Expression.parse(receiver.text)
+  if (!parsed.status) return []
+
+  const expression = parsed.value
+  if (expression.is(Literal) || expression.is(Reference) || expression.is(Self) || expression.is(New) || expression.is(Singleton)) {
+    linkSentenceInNode(expression, node)
+    try {
+      return expressionModules(expression)
+    } finally {
+      unlinkSentence(expression)
+    }
+  }
+
+  // Any other receiver (like a message send) is typed by the type system, if it is part of the environment
+  const existing = [node, ...node.ancestors].find(ancestor => ancestor.is(Package))?.descendants.find(descendant =>
+    descendant.is(Expression) && descendant.sourceMap?.start.offset === receiver.start && descendant.sourceMap?.end.offset === receiver.end
+  )
+  return existing ? inferredModules(existing) : []
+}
+
+const expressionModules = (expression: Expression, visited = new Set<Node>()): List<Module> => {
+  const { environment } = expression
+  if (expression.is(Singleton)) return [expression]
+  if (expression.is(Self)) return [parentModule(expression)]
+  if (expression.is(New)) return expression.instantiated.target ? [expression.instantiated.target] : []
+  if (expression.is(Literal)) return expression.value === null ? [] : [literalValueToClass(environment, expression.value)]
+  if (!expression.is(Reference)) return inferredModules(expression)
+
+  // Variables the type system knows nothing about are typed after their initial value
+  const target = expression.target
+  if (!target || visited.has(target)) return []
+  if (isNamedSingleton(target)) return [target]
+  const inferred = inferredModules(target)
+  if (inferred.length) return inferred
+  return (target.is(Variable) || target.is(Field)) && !target.value.isSynthetic
+    ? expressionModules(target.value, visited.add(target))
+    : []
+}
+
+/** Modules of the type inferred for the node. Environments are typed on first use. */
+const inferredModules = (node: Node): List<Module> => {
+  const { environment } = node
+  if (!getPotentiallyUninitializedLazy(environment, 'typeRegistry')) inferTypes(environment)
+  try {
+    return typeModules(node.type)
+  } catch {
+    return []
+  }
+}
+
+const typeModules = (type: WollokType): List<Module> =>
+  type instanceof WollokModuleType ? [type.module]
+  : type instanceof WollokUnionType ? type.types.flatMap(typeModules)
+  : []
\ No newline at end of file
@@ -21,6 +21,9 @@ export const RANGE_MODULE = 'wollok.lang.Range'
 export const DICTIONARY_MODULE = 'wollok.lang.Dictionary'
 export const OBJECT_MODULE = 'wollok.lang.Object'
 export const EXCEPTION_MODULE = 'wollok.lang.Exception'
+export const ASSERTION_EXCEPTION_MODULE = 'wollok.lib.AssertionException'
+export const EVALUATION_ERROR_MODULE = 'wollok.lang.EvaluationError'
+export const STACK_OVERFLOW_EXCEPTION_MODULE = 'wollok.lang.StackOverflowException'
 export const CLOSURE_MODULE = 'wollok.lang.Closure'
 export const VOID_WKO = 'wollok.lang.void'
 
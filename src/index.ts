@@ -1,4 +1,4 @@
-import link from './linker'
+import link, { LinkOptions } from './linker'
 import { Environment } from './model'
 import { List } from './extensions'
 import { fromJSON } from './jsonUtils'
@@ -14,7 +14,7 @@ export type FileContent = {
   content: string,
 }
 
-function buildEnvironment(files: List<FileContent>, baseEnvironment: Environment = fromJSON<Environment>(WRE)): Environment {
+function buildEnvironment(files: List<FileContent>, baseEnvironment: Environment = fromJSON<Environment>(WRE), options: LinkOptions = {}): Environment {
 
   return link(files.map(({ name, content }) => {
     try {
@@ -22,20 +22,29 @@ function buildEnvironment(files: List<FileContent>, baseEnvironment: Environment
     } catch (error) {
       throw new Error(`Failed to parse ${name}: ${(error as Error).message}`)
     }
-  }), baseEnvironment)
+  }), baseEnvironment, options)
 
 }
 
 export * from './constants'
 export * from './extensions'
 export * from './helpers'
+export * from './completion'
 export * from './linker'
 export * from './jsonUtils'
 export * from './model'
 export * from './interpreter/interpreter'
 export * from './interpreter/dynamicDiagram'
 export * from './interpreter/runtimeModel'
+export * from './interpreter/testRunner'
+export * from './interpreter/testReporters'
+export * from './interpreter/coverage'
+export * from './interpreter/profiler'
+export * from './interpreter/inspector'
+export * from './interpreter/debugAdapter'
+export * from './interpreter/repl'
 export * from './typeSystem/constraintBasedTypeSystem'
+export * from './printer/codeFrame'
 export * from './printer/exceptions'
 export * from './printer/utils'
 export * from './validator/messageReporter'
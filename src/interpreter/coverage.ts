@@ -0,0 +1,146 @@
+import { CLOSURE_EVALUATE_METHOD, CLOSURE_TO_STRING_METHOD } from '../constants'
+import { List } from '../extensions'
+import { Body, Environment, If, Method, Node, Package, Sentence, Try } from '../model'
+import { Evaluation, EvaluationListener, StepEvent } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type FunctionCoverage = { name: string, line: number, hits: number }
+export type LineCoverage = { line: number, hits: number }
+/** Hits is undefined when the node that holds the branch was never reached. */
+export type BranchCoverage = { line: number, block: number, branch: number, hits?: number }
+
+export type FileCoverage = {
+  fileName: string
+  functions: List<FunctionCoverage>
+  lines: List<LineCoverage>
+  branches: List<BranchCoverage>
+}
+
+export type CoverageTotals = Record<'functions' | 'lines' | 'branches', { found: number, hit: number }>
+
+export type CoverageSummary = {
+  files: List<FileCoverage>
+  totals: CoverageTotals
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// COLLECTOR
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const lineOf = (node: Node): number => node.sourceMap!.start.line
+
+const isCoverableMethod = (node: Node): node is Method =>
+  node.is(Method) && !node.isSynthetic && node.isConcrete() && ![CLOSURE_EVALUATE_METHOD, CLOSURE_TO_STRING_METHOD].includes(node.name)
+
+const totalsOf = (hits: List<number | undefined>) => ({ found: hits.length, hit: hits.filter(hit => !!hit).length })
+
+/**
+ * Counts how many times each node is yielded by the executions of the evaluations it is attached to (and their
+ * copies) and aggregates those hits per source file, by method, line and branch.
+ */
+export class CoverageCollector {
+  readonly environment: Environment
+  readonly hits = new Map<Node, number>()
+  protected readonly listener: EvaluationListener<StepEvent> = ({ node }) => this.hits.set(node, this.hitsOf(node) + 1)
+
+  constructor(environment: Environment) {
+    this.environment = environment
+  }
+
+  attach(evaluation: Evaluation): this {
+    evaluation.off('step', this.listener)
+    evaluation.onStep(this.listener)
+    return this
+  }
+
+  detach(evaluation: Evaluation): this {
+    evaluation.off('step', this.listener)
+    return this
+  }
+
+  hitsOf(node: Node): number {
+    return this.hits.get(node) ?? 0
+  }
+
+  reset(): void {
+    this.hits.clear()
+  }
+
+  /** Only the files that are not part of the Wollok base library are included in the summary. */
+  summary(): CoverageSummary {
+    const filePackages = this.environment.descendants.filter((node): node is Package =>
+      node.is(Package) && !!node.fileName && !node.isBaseWollokCode
+    )
+    const files = filePackages.map(filePackage => this.fileCoverage(filePackage))
+
+    return {
+      files,
+      totals: {
+        functions: totalsOf(files.flatMap(file => file.functions.map(({ hits }) => hits))),
+        lines: totalsOf(files.flatMap(file => file.lines.map(({ hits }) => hits))),
+        branches: totalsOf(files.flatMap(file => file.branches.map(({ hits }) => hits))),
+      },
+    }
+  }
+
+  toJSON(): CoverageSummary {
+    return this.summary()
+  }
+
+  /** Renders the summary in the lcov tracefile format understood by genhtml, Codecov, Coveralls and IDE plugins. */
+  toLcov(): string {
+    return this.summary().files.flatMap(({ fileName, functions, lines, branches }) => [
+      'TN:',
+      `SF:${fileName}`,
+      ...functions.map(({ name, line }) => `FN:${line},${name}`),
+      ...functions.map(({ name, hits }) => `FNDA:${hits},${name}`),
+      `FNF:${functions.length}`,
+      `FNH:${functions.filter(({ hits }) => hits).length}`,
+      ...branches.map(({ line, block, branch, hits }) => `BRDA:${line},${block},${branch},${hits ?? '-'}`),
+      `BRF:${branches.length}`,
+      `BRH:${branches.filter(({ hits }) => hits).length}`,
+      ...lines.map(({ line, hits }) => `DA:${line},${hits}`),
+      `LF:${lines.length}`,
+      `LH:${lines.filter(({ hits }) => hits).length}`,
+      'end_of_record',
+    ]).join('\n')
+  }
+
+  protected fileCoverage(filePackage: Package): FileCoverage {
+    const nodes = filePackage.descendants.filter(node => !node.isSynthetic)
+
+    const functions = nodes.filter(isCoverableMethod).map(method => ({
+      name: `${method.parent.fullyQualifiedName}.${method.name}/${method.parameters.length}`,
+      line: lineOf(method),
+      hits: this.hitsOf(method),
+    }))
+
+    const lineHits = new Map<number, number>()
+    for (const sentence of nodes.filter(node => node.is(Sentence) && node.parent.is(Body))) {
+      const line = lineOf(sentence)
+      lineHits.set(line, Math.max(lineHits.get(line) ?? 0, this.hitsOf(sentence)))
+    }
+    const lines = [...lineHits.entries()]
+      .sort(([line], [otherLine]) => line - otherLine)
+      .map(([line, hits]) => ({ line, hits }))
+
+    const branches = nodes
+      .filter((node): node is If | Try => node.is(If) || node.is(Try))
+      .flatMap((node, block) => {
+        const reached = this.hitsOf(node) > 0
+        const bodies = node.is(If) ? [node.thenBody, node.elseBody] : node.catches.map(handler => handler.body)
+        return bodies.map((body, branch) => ({
+          line: lineOf(node),
+          block,
+          branch,
+          hits: reached ? this.hitsOf(body) : undefined,
+        }))
+      })
+
+    return { fileName: filePackage.fileName!, functions, lines, branches }
+  }
+
+}
\ No newline at end of file
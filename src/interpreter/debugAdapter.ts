@@ -0,0 +1,459 @@
+import { List, match, otherwise, when } from '../extensions'
+import { Assignment, Body, Entity, Environment, If, Name, New, Node, Package, Return, Send, Sentence, Super, Throw, Variable } from '../model'
+import WRENatives from '../wre/wre.natives'
+import { BreakpointOptions, DirectedInterpreter, ExceptionBreakMode, ExecutionDirector, ExecutionState, isValidHitCondition } from './interpreter'
+import { Inspector } from './inspector'
+import { Evaluation, Natives, SeededRandom, WollokException } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// PROTOCOL
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+// Only the subset of the Debug Adapter Protocol (https://microsoft.github.io/debug-adapter-protocol) used here.
+
+export type DebugRequest = { seq: number, type: 'request', command: string, arguments?: any }
+export type DebugResponse = { seq: number, type: 'response', request_seq: number, command: string, success: boolean, message?: string, body?: any }
+export type DebugEvent = { seq: number, type: 'event', event: string, body?: any }
+export type DebugProtocolMessage = DebugRequest | DebugResponse | DebugEvent
+
+export type LaunchArguments = {
+  /** Fully qualified name of the program or test to run. */
+  target: Name
+  stopOnEntry?: boolean
+  /** Records the execution history so it can be stepped back, keeping up to the given number of steps if one is given. */
+  history?: boolean | number
+  /** Seed for the random numbers of the program, to reproduce a previous run. */
+  seed?: number
+}
+
+const THREAD_ID = 1
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TRANSPORTS
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export interface DebugTransport {
+  send(message: DebugProtocolMessage): void
+  onMessage(listener: (message: DebugProtocolMessage) => void): void
+  close(): void
+}
+
+/** Transport that delivers messages synchronously to its peer. Useful to drive a session from tests or the same process. */
+export class InMemoryTransport implements DebugTransport {
+  protected peer?: InMemoryTransport
+  protected readonly listeners: ((message: DebugProtocolMessage) => void)[] = []
+  closed = false
+
+  static pair(): [InMemoryTransport, InMemoryTransport] {
+    const client = new InMemoryTransport()
+    const server = new InMemoryTransport()
+    client.peer = server
+    server.peer = client
+    return [client, server]
+  }
+
+  send(message: DebugProtocolMessage): void {
+    if (this.closed || !this.peer) throw new Error('Cannot send messages through a closed transport')
+    for (const listener of this.peer.listeners) listener(message)
+  }
+
+  onMessage(listener: (message: DebugProtocolMessage) => void): void {
+    this.listeners.push(listener)
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.peer) this.peer.closed = true
+  }
+}
+
+/**
+ * Transport that reads and writes messages framed with `Content-Length` headers, as DAP clients do over stdio. Messages
+ * that can not be read are dropped and reported to the error listeners, so a bad client can not bring the adapter down.
+ */
+export class StreamTransport implements DebugTransport {
+  protected buffer = Buffer.alloc(0)
+  protected readonly listeners: ((message: DebugProtocolMessage) => void)[] = []
+  protected readonly errorListeners: ((error: Error) => void)[] = []
+  protected readonly onData = (chunk: Buffer | string): void => this.receive(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+
+  constructor(protected readonly input: NodeJS.ReadableStream = process.stdin, protected readonly output: NodeJS.WritableStream = process.stdout) {
+    input.on('data', this.onData)
+  }
+
+  send(message: DebugProtocolMessage): void {
+    const content = JSON.stringify(message)
+    this.output.write(`Content-Length: ${Buffer.byteLength(content, 'utf8')}\r\n\r\n${content}`)
+  }
+
+  onMessage(listener: (message: DebugProtocolMessage) => void): void {
+    this.listeners.push(listener)
+  }
+
+  onError(listener: (error: Error) => void): void {
+    this.errorListeners.push(listener)
+  }
+
+  close(): void {
+    this.input.off('data', this.onData)
+  }
+
+  protected receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n')
+      if (headerEnd < 0) return
+      const contentLength = Number(/Content-Length: *(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString('ascii'))?.[1])
+      const contentStart = headerEnd + 4
+      if (isNaN(contentLength)) {
+        this.buffer = this.buffer.subarray(contentStart)
+        this.reportError(new Error('Missing Content-Length header in debug protocol message'))
+        continue
+      }
+      if (this.buffer.length < contentStart + contentLength) return
+      const content = this.buffer.subarray(contentStart, contentStart + contentLength).toString('utf8')
+      this.buffer = this.buffer.subarray(contentStart + contentLength)
+      let message: DebugProtocolMessage
+      try {
+        message = JSON.parse(content)
+      } catch (error) {
+        this.reportError(new Error(`Malformed debug protocol message: ${error instanceof Error ? error.message : error}`))
+        continue
+      }
+      for (const listener of this.listeners) listener(message)
+    }
+  }
+
+  protected reportError(error: Error): void {
+    for (const listener of this.errorListeners) listener(error)
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// SESSION
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+/** First node yielded when executing the given sentence, which is where a breakpoint on it should halt. */
+const entryNode = (node: Node): Node => match(node)(
+  when(Variable)(node => entryNode(node.value)),
+  when(Assignment)(node => entryNode(node.value)),
+  when(Return)(node => node.value ? entryNode(node.value) : node),
+  when(Send)(node => entryNode(node.receiver)),
+  when(If)(node => entryNode(node.condition)),
+  when(Throw)(node => entryNode(node.exception)),
+  when(New)(node => node.args.length ? entryNode(node.args[0].value) : node),
+  when(Super)(node => node.args.length ? entryNode(node.args[0]) : node),
+  otherwise((node: Node) => node),
+)
+
+const exceptionDescription = ({ instance }: WollokException): string =>
+  instance.innerValue instanceof Error ? instance.innerValue.message : instance.get('message')?.innerString ?? ''
+
+const lineOf = (node: Node): number | undefined => node.sourceMap?.start.line
+
+const sameSource = (path: string, fileName: string): boolean =>
+  path === fileName || path.replace(/\\/g, '/').endsWith(`/${fileName}`)
+
+/**
+ * Debug Adapter Protocol server over a directed interpreter. It launches a program or test by its fully qualified
+ * name and answers to the breakpoint, stepping and inspection requests of any DAP client.
+ */
+export class DebugSession {
+  readonly environment: Environment
+  readonly natives: Natives
+  protected readonly transport: DebugTransport
+  protected sequence = 1
+  protected readonly breakpointsBySource = new Map<string, List<[Node, BreakpointOptions]>>()
+  protected interpreter?: DirectedInterpreter
+  protected director?: ExecutionDirector<void>
+  protected launched = false
+  protected configured = false
+  protected stopOnEntry = false
+  protected terminated = false
+  protected exceptionBreakMode: ExceptionBreakMode = 'none'
+  protected pausedException?: WollokException
+  protected inspector?: Inspector
+
+  constructor(environment: Environment, transport: DebugTransport, natives: Natives = WRENatives) {
+    this.environment = environment
+    this.transport = transport
+    this.natives = natives
+    transport.onMessage(message => { if (message.type === 'request') this.handle(message) })
+  }
+
+  get evaluation(): Evaluation | undefined { return this.interpreter?.evaluation }
+
+  protected handle(request: DebugRequest): void {
+    const handler = this.handlers[request.command]
+    if (!handler) return this.respond(request, false, undefined, `Unrecognized command: ${request.command}`)
+    try {
+      handler.call(this, request, request.arguments ?? {})
+    } catch (error) {
+      this.respond(request, false, undefined, error instanceof Error ? error.message : `${error}`)
+    }
+  }
+
+  protected readonly handlers: Record<string, (this: DebugSession, request: DebugRequest, args: any) => void> = {
+    initialize(request) {
+      this.respond(request, true, {
+        supportsConfigurationDoneRequest: true,
+        supportsTerminateRequest: true,
+        supportsConditionalBreakpoints: true,
+        supportsHitConditionalBreakpoints: true,
+        supportsLogPoints: true,
+        supportsExceptionInfoRequest: true,
+        supportsStepBack: true,
+        supportsEvaluateForHovers: true,
+        exceptionBreakpointFilters: [
+          { filter: 'all', label: 'All Exceptions', default: false },
+          { filter: 'uncaught', label: 'Uncaught Exceptions', default: false },
+        ],
+      })
+      this.emit('initialized')
+    },
+
+    launch(request, { target, stopOnEntry = false, history = false, seed }: LaunchArguments) {
+      const entity = this.environment.getNodeOrUndefinedByFQN<Entity>(target)
+      if (!entity) throw new Error(`Could not find program or test ${target}`)
+
+      const evaluation = Evaluation.build(this.environment, this.natives, { random: new SeededRandom(seed) })
+      evaluation.console = { ...console, log: (...data: any[]) => this.emit('output', { category: 'stdout', output: `${data.join(' ')}\n` }) }
+      this.interpreter = new DirectedInterpreter(evaluation)
+      this.director = this.interpreter.exec(entity)
+      this.director.breakOnExceptions = this.exceptionBreakMode
+      if (history) this.director.recordHistory(typeof history === 'number' ? { maxSteps: history } : {})
+      for (const [node, options] of [...this.breakpointsBySource.values()].flat()) this.director.addBreakpoint(node, options)
+      this.stopOnEntry = stopOnEntry
+      this.launched = true
+      this.respond(request, true)
+      this.start()
+    },
+
+    configurationDone(request) {
+      this.configured = true
+      this.respond(request, true)
+      this.start()
+    },
+
+    setBreakpoints(request, { source, breakpoints = [] }: { source: { path: string }, breakpoints?: List<{ line: number } & BreakpointOptions> }) {
+      const filePackage = this.environment.descendants.find((node): node is Package => node.is(Package) && !!node.fileName && sameSource(source.path, node.fileName))
+      const statements = filePackage?.descendants.filter(node => node.is(Sentence) && node.parent.is(Body) && !!node.sourceMap) ?? []
+
+      const resolved = breakpoints.map(({ line, ...options }) => {
+        const candidates = statements.filter(statement => lineOf(statement)! >= line)
+        const nearestLine = Math.min(...candidates.map(candidate => lineOf(candidate)!))
+        return { line, options, statement: candidates.find(candidate => lineOf(candidate) === nearestLine) }
+      })
+
+      const isValid = ({ hitCondition }: BreakpointOptions) => hitCondition === undefined || isValidHitCondition(hitCondition)
+      const previous = this.breakpointsBySource.get(source.path) ?? []
+      const nodes = resolved.flatMap(({ statement, options }): List<[Node, BreakpointOptions]> => statement && isValid(options) ? [[entryNode(statement), options]] : [])
+      this.breakpointsBySource.set(source.path, nodes)
+      if (this.director) {
+        for (const [node] of previous) this.director.removeBreakpoint(node)
+        for (const [node, options] of nodes) this.director.addBreakpoint(node, options)
+      }
+
+      this.respond(request, true, {
+        breakpoints: resolved.map(({ line, statement, options }) =>
+          !statement ? { verified: false, line, source, message: 'No executable code at or after this line' }
+          : !isValid(options) ? { verified: false, line: lineOf(statement), source, message: `Invalid hit condition: ${options.hitCondition}` }
+          : { verified: true, line: lineOf(statement), source }
+        ),
+      })
+    },
+
+    setExceptionBreakpoints(request, { filters = [] }: { filters?: List<string> }) {
+      this.exceptionBreakMode = filters.includes('all') ? 'all' : filters.includes('uncaught') ? 'uncaught' : 'none'
+      if (this.director) this.director.breakOnExceptions = this.exceptionBreakMode
+      this.respond(request, true)
+    },
+
+    exceptionInfo(request) {
+      const exception = this.pausedException
+      if (!exception) throw new Error('Execution is not paused on an exception')
+      this.respond(request, true, {
+        exceptionId: exception.instance.module.fullyQualifiedName,
+        description: exceptionDescription(exception),
+        breakMode: this.exceptionBreakMode === 'all' ? 'always' : 'unhandled',
+        details: { message: exceptionDescription(exception), typeName: exception.instance.module.fullyQualifiedName },
+      })
+    },
+
+    threads(request) {
+      this.respond(request, true, { threads: [{ id: THREAD_ID, name: 'main' }] })
+    },
+
+    stackTrace(request) {
+      const frames = this.requireEvaluation().frameStack
+        .map((frame, id) => ({ frame, id }))
+        .filter(({ frame }) => !frame.node.is(Environment))
+        .reverse()
+
+      this.respond(request, true, {
+        stackFrames: frames.map(({ frame, id }) => {
+          const { currentNode } = frame
+          const fileName = currentNode.sourceFileName
+          return {
+            id,
+            name: frame.description,
+            source: fileName ? { name: fileName.split('/').pop(), path: fileName } : undefined,
+            line: currentNode.sourceMap?.start.line ?? 0,
+            column: currentNode.sourceMap?.start.column ?? 0,
+            endLine: currentNode.sourceMap?.end.line,
+            endColumn: currentNode.sourceMap?.end.column,
+          }
+        }),
+        totalFrames: frames.length,
+      })
+    },
+
+    scopes(request, { frameId }: { frameId: number }) {
+      const frame = this.requireEvaluation().frameStack[frameId]
+      if (!frame) throw new Error(`Unknown frame ${frameId}`)
+      this.respond(request, true, { scopes: [{ name: 'Locals', variablesReference: this.requireInspector().frameReference(frame), expensive: false }] })
+    },
+
+    variables(request, { variablesReference, start, count }: { variablesReference: number, start?: number, count?: number }) {
+      this.respond(request, true, {
+        variables: this.requireInspector().children(variablesReference, { start, count: count || undefined }).map(({ name, value, type, reference }) => ({
+          name,
+          value,
+          type,
+          variablesReference: reference,
+        })),
+      })
+    },
+
+    evaluate(request, { expression, frameId, context }: { expression: string, frameId?: number, context?: string }) {
+      const evaluation = this.requireEvaluation()
+      const frame = frameId === undefined ? evaluation.currentFrame : evaluation.frameStack[frameId]
+      if (!frame) throw new Error(`Unknown frame ${frameId}`)
+
+      // Only expressions typed by the user in the debug console are allowed to change the state of the program
+      const { result, errored, error, value } = this.requireDirector().evaluateInFrame(frame, expression, { keepSideEffects: context === 'repl' })
+      if (errored) throw new Error(error instanceof WollokException ? `${error.name}: ${exceptionDescription(error)}` : result)
+
+      if (context === 'repl') this.inspector = undefined
+      const { type, reference } = this.requireInspector().inspect(expression, value)
+      this.respond(request, true, { result, type, variablesReference: reference })
+    },
+
+    continue(request) {
+      this.respond(request, true, { allThreadsContinued: true })
+      this.proceed(director => director.resume(), 'breakpoint')
+    },
+
+    next(request) {
+      this.respond(request, true)
+      this.proceedToNextLine(director => director.stepOver())
+    },
+
+    stepIn(request) {
+      this.respond(request, true)
+      this.proceedToNextLine(director => director.stepIn())
+    },
+
+    stepOut(request) {
+      this.respond(request, true)
+      this.proceed(director => director.stepOut(), 'step')
+    },
+
+    stepBack(request) {
+      this.requireHistory()
+      this.respond(request, true)
+      this.proceed(director => director.stepBack(), 'step')
+    },
+
+    reverseContinue(request) {
+      this.requireHistory()
+      this.respond(request, true)
+      this.proceed(director => director.reverseContinue(), 'breakpoint')
+    },
+
+    terminate(request) {
+      this.respond(request, true)
+      this.finish()
+    },
+
+    disconnect(request) {
+      this.respond(request, true)
+      this.finish()
+      this.transport.close()
+    },
+  }
+
+  protected start(): void {
+    if (!this.launched || !this.configured) return
+    if (this.stopOnEntry) this.proceed(director => director.stepIn(), 'entry')
+    else this.proceed(director => director.resume(), 'breakpoint')
+  }
+
+  protected proceed(advance: (director: ExecutionDirector<void>) => ExecutionState<void>, reason: string): void {
+    this.report(advance(this.requireDirector()), reason)
+  }
+
+  /** Steps until reaching a node in a different line or frame, so each step request moves one source line. */
+  protected proceedToNextLine(advance: (director: ExecutionDirector<void>) => ExecutionState<void>): void {
+    const director = this.requireDirector()
+    const evaluation = this.requireEvaluation()
+    const startLine = lineOf(evaluation.currentFrame.currentNode)
+    const startFrame = evaluation.currentFrame
+    let state = advance(director)
+    while (!state.done && !state.exception && !director.breakpoints.includes(state.next) && evaluation.currentFrame === startFrame && lineOf(state.next) === startLine)
+      state = advance(director)
+    this.report(state, 'step')
+  }
+
+  protected report(state: ExecutionState<void>, reason: string): void {
+    this.inspector = undefined
+    this.pausedException = undefined
+    if (!state.done && state.exception) {
+      this.pausedException = state.exception
+      const description = exceptionDescription(state.exception)
+      return this.emit('stopped', { reason: 'exception', description, text: description, threadId: THREAD_ID, allThreadsStopped: true })
+    }
+    if (!state.done) {
+      const halted = this.requireDirector().breakpoints.includes(state.next) ? 'breakpoint' : reason
+      return this.emit('stopped', { reason: halted, threadId: THREAD_ID, allThreadsStopped: true })
+    }
+    if (state.error) this.emit('output', { category: 'stderr', output: `${state.error.name}: ${state.error.message}\n` })
+    this.emit('exited', { exitCode: state.error ? 1 : 0 })
+    this.finish()
+  }
+
+  protected finish(): void {
+    if (this.terminated) return
+    this.terminated = true
+    this.emit('terminated')
+  }
+
+  /** Inspections are only valid while the execution is paused, so a new inspector is created after each stop. */
+  protected requireInspector(): Inspector {
+    this.inspector ??= new Inspector(this.requireEvaluation())
+    return this.inspector
+  }
+
+  protected requireDirector(): ExecutionDirector<void> {
+    if (!this.director || this.terminated) throw new Error('There is no running program')
+    return this.director
+  }
+
+  protected requireHistory(): void {
+    if (!this.requireDirector().isRecordingHistory) throw new Error('Launch with history enabled to step back')
+  }
+
+  protected requireEvaluation(): Evaluation {
+    this.requireDirector()
+    return this.evaluation!
+  }
+
+  protected respond(request: DebugRequest, success: boolean, body?: any, message?: string): void {
+    this.transport.send({ seq: this.sequence++, type: 'response', request_seq: request.seq, command: request.command, success, message, body })
+  }
+
+  protected emit(event: string, body?: any): void {
+    this.transport.send({ seq: this.sequence++, type: 'event', event, body })
+  }
+
+}
\ No newline at end of file
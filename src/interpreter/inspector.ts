@@ -0,0 +1,252 @@
+import { DICTIONARY_MODULE, KEYWORDS, NUMBER_MODULE, RANGE_MODULE, STRING_MODULE, TO_STRING_METHOD } from '../constants'
+import { List } from '../extensions'
+import { Catch, Field, Id, Method, Module, Name } from '../model'
+import { Interpreter } from './interpreter'
+import { Context, Evaluation, Frame, RuntimeObject, RuntimeValue } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type InspectedVariableKind = 'self' | 'parameter' | 'local' | 'field' | 'fields' | 'element' | 'entry' | 'key' | 'value' | 'character'
+
+export type InspectedVariable = {
+  name: string
+  kind: InspectedVariableKind
+  /** Human readable representation of the value, as shown by the REPL. */
+  value: string
+  /** Fully qualified name of the module of the value, if it has one. */
+  type?: Name
+  /** Id to pass to `Inspector.children` to expand this variable, or 0 if it has nothing to expand. */
+  reference: number
+  constant?: boolean
+  /** The inspected object, if the variable is backed by one. Synthetic children, like the characters of a string, have none. */
+  object?: RuntimeObject
+}
+
+export type InspectionPage = { start?: number, count?: number }
+
+type Expandable
+  = { kind: 'frame', frame: Frame }
+  | { kind: 'object', object: RuntimeObject }
+  | { kind: 'fields', object: RuntimeObject, module: Module }
+  | { kind: 'entry', key: RuntimeValue, value: RuntimeValue }
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// INSPECTOR
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tree view of the runtime state of an evaluation. Children are only computed when expanded, and each expandable
+ * element (frame, object, group of fields or dictionary entry) keeps the same reference for the life of the inspector.
+ *
+ * Representations are built by sending `toString` to the copies of the objects in a copy of the evaluation, made the
+ * first time one is needed, so inspecting does not change the program. Create a new inspector whenever the inspected
+ * evaluation resumes.
+ */
+export class Inspector {
+  readonly evaluation: Evaluation
+  protected readonly references = new Map<string, number>()
+  protected readonly expandables = new Map<number, Expandable>()
+  protected displayCopy?: { interpreter: Interpreter, contexts: Map<Id, Context> }
+
+  constructor(evaluation: Evaluation) {
+    this.evaluation = evaluation
+  }
+
+  /** Reference to expand into the `self`, parameters and locals of the given frame. */
+  frameReference(frame: Frame): number {
+    return this.referenceTo(frame.id, { kind: 'frame', frame })
+  }
+
+  /** Variables of the frame: `self` first (if the frame has one), then the parameters and then the rest of the locals. */
+  frameVariables(frame: Frame): List<InspectedVariable> {
+    return this.children(this.frameReference(frame))
+  }
+
+  /** Children of an object: its specialised children (elements, entries, characters...) followed by its fields. */
+  objectVariables(object: RuntimeObject): List<InspectedVariable> {
+    return this.children(this.referenceTo(object.id, { kind: 'object', object }))
+  }
+
+  inspect(name: string, value: RuntimeValue, kind: InspectedVariableKind = 'value', constant?: boolean): InspectedVariable {
+    return {
+      name,
+      kind,
+      value: this.display(value),
+      type: value?.module.fullyQualifiedName,
+      reference: value && this.isExpandable(value) ? this.referenceTo(value.id, { kind: 'object', object: value }) : 0,
+      ...constant !== undefined ? { constant } : {},
+      object: value,
+    }
+  }
+
+  children(reference: number, { start = 0, count = Infinity }: InspectionPage = {}): List<InspectedVariable> {
+    const expandable = this.expandables.get(reference)
+    if (!expandable) throw new Error(`Unknown inspection reference ${reference}`)
+
+    const page = <T>(elements: List<T>) => elements.slice(start, start + count)
+
+    switch (expandable.kind) {
+      case 'frame': return page(this.frameChildren(expandable.frame))
+      case 'object': return this.objectChildren(expandable.object, start, count)
+      case 'fields': return page(this.fieldsOf(expandable.object, expandable.module))
+      case 'entry': return page([
+        this.inspect('key', expandable.key, 'key'),
+        this.inspect('value', expandable.value, 'value'),
+      ])
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // CHILDREN
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  protected frameChildren(frame: Frame): List<InspectedVariable> {
+    const parameters = frame.node.is(Method) ? frame.node.parameters.map(parameter => parameter.name)
+      : frame.node.is(Catch) ? [frame.node.parameter.name]
+      : []
+    const locals = [...frame.locals.keys()].filter(name => name !== KEYWORDS.SELF && !parameters.includes(name))
+
+    return [
+      ...frame.get(KEYWORDS.SELF) ? [this.inspect(KEYWORDS.SELF, frame.get(KEYWORDS.SELF), 'self')] : [],
+      ...parameters.filter(name => frame.locals.has(name)).map(name => this.inspect(name, frame.get(name), 'parameter')),
+      ...locals.map(name => this.inspect(name, frame.get(name), 'local')),
+    ]
+  }
+
+  protected objectChildren(object: RuntimeObject, start: number, count: number): List<InspectedVariable> {
+    const specialised = this.specialisedChildren(object, start, count)
+    const remaining = Math.max(0, count - specialised.length)
+    const fieldsStart = Math.max(0, start - this.specialisedChildrenCount(object))
+
+    return [...specialised, ...this.fieldChildren(object).slice(fieldsStart, fieldsStart + remaining)]
+  }
+
+  /** Fields are grouped by declaring module, unless all of them come from the same one. */
+  protected fieldChildren(object: RuntimeObject): List<InspectedVariable> {
+    const modules = object.module.hierarchy.filter(module => declaredFields(object, module).length)
+    if (modules.length <= 1) return modules.flatMap(module => this.fieldsOf(object, module))
+
+    return modules.map(module => ({
+      name: module.fullyQualifiedName,
+      kind: 'fields',
+      value: `${declaredFields(object, module).length} fields`,
+      reference: this.referenceTo(`${object.id}/${module.id}`, { kind: 'fields', object, module }),
+    }))
+  }
+
+  protected fieldsOf(object: RuntimeObject, module: Module): List<InspectedVariable> {
+    return declaredFields(object, module).map(field => this.inspect(field.name, object.get(field.name), 'field', field.isConstant))
+  }
+
+  protected specialisedChildrenCount(object: RuntimeObject): number {
+    if (object.innerValue === null) return 0
+    if (object.innerString !== undefined) return object.innerString.length
+    if (object.innerCollection) return object.innerCollection.length
+    if (object.module.fullyQualifiedName === DICTIONARY_MODULE) return this.dictionaryEntries(object).length
+    if (object.module.fullyQualifiedName === RANGE_MODULE) return this.rangeBounds(object)?.size ?? 0
+    return 0
+  }
+
+  protected specialisedChildren(object: RuntimeObject, start: number, count: number): List<InspectedVariable> {
+    const end = Math.min(start + count, this.specialisedChildrenCount(object))
+    const indexes = Array.from({ length: Math.max(0, end - start) }, (_, index) => start + index)
+
+    if (object.innerValue === null) return []
+
+    if (object.innerString !== undefined) return indexes.map(index => ({
+      name: `[${index}]`,
+      kind: 'character',
+      value: `"${object.innerString![index]}"`,
+      type: STRING_MODULE,
+      reference: 0,
+    }))
+
+    if (object.innerCollection) return indexes.map(index => this.inspect(`[${index}]`, object.innerCollection![index], 'element'))
+
+    if (object.module.fullyQualifiedName === DICTIONARY_MODULE) {
+      const entries = this.dictionaryEntries(object)
+      return indexes.map(index => {
+        const { id, key, value } = entries[index]
+        return {
+          name: this.display(key),
+          kind: 'entry',
+          value: this.display(value),
+          type: value?.module.fullyQualifiedName,
+          reference: this.referenceTo(id, { kind: 'entry', key, value }),
+        }
+      })
+    }
+
+    if (object.module.fullyQualifiedName === RANGE_MODULE) {
+      const bounds = this.rangeBounds(object)!
+      return indexes.map(index => ({
+        name: `[${index}]`,
+        kind: 'element',
+        value: `${bounds.start + index * bounds.step}`,
+        type: NUMBER_MODULE,
+        reference: 0,
+      }))
+    }
+
+    return []
+  }
+
+  protected dictionaryEntries(dictionary: RuntimeObject): List<{ id: Id, key: RuntimeValue, value: RuntimeValue }> {
+    const buckets = dictionary.get('<buckets>')?.innerCollection ?? []
+    return buckets.flatMap(bucket => bucket.innerCollection ?? []).map(entry => {
+      const [key, value] = entry.innerCollection!
+      return { id: entry.id, key, value }
+    })
+  }
+
+  protected rangeBounds(range: RuntimeObject): { start: number, step: number, size: number } | undefined {
+    const start = range.get('start')?.innerNumber
+    const end = range.get('end')?.innerNumber
+    const step = range.get('step')?.innerNumber
+    if (start === undefined || end === undefined || !step) return undefined
+    return { start, step, size: Math.max(0, Math.floor((end - start) / step) + 1) }
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // HELPERS
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  protected referenceTo(key: string, expandable: Expandable): number {
+    const existing = this.references.get(key)
+    if (existing) return existing
+
+    const reference = this.references.size + 1
+    this.references.set(key, reference)
+    this.expandables.set(reference, expandable)
+    return reference
+  }
+
+  protected isExpandable(value: RuntimeObject): boolean {
+    return this.specialisedChildrenCount(value) > 0 || value.module.hierarchy.some(module => declaredFields(value, module).length)
+  }
+
+  protected display(value: RuntimeValue): string {
+    if (!value || value.innerValue === null) return 'null'
+    if (!this.displayCopy) {
+      const contexts = new Map<Id, Context>()
+      const evaluation = this.evaluation.copy(contexts)
+      evaluation.eventsSuspended = true
+      this.displayCopy = { interpreter: new Interpreter(evaluation), contexts }
+    }
+    const { interpreter, contexts } = this.displayCopy
+    // Values that are not reachable from the evaluation (like the result of evaluating an expression) are copied too
+    const copy = contexts.get(value.id) as RuntimeObject | undefined ?? value.copy(contexts)
+    try {
+      if (copy.shouldShowShortValue()) return copy.showShortValue(interpreter)
+      return interpreter.send(TO_STRING_METHOD, copy)?.getShortRepresentation() ?? value.getShortLabel()
+    } catch {
+      return value.getShortLabel()
+    }
+  }
+
+}
+
+const declaredFields = (object: RuntimeObject, module: Module): List<Field> =>
+  module.fields.filter(field => object.locals.has(field.name))
\ No newline at end of file
@@ -1,27 +1,32 @@
-import { linkSentenceInNode } from '../linker'
-import { Entity, Environment, Import, Method, Module, Name, Node, Reference, Sentence } from '../model'
+import { linkSentenceInNode, relinkEntity, restoreEntity, unlinkSentence } from '../linker'
+import { Class, Entity, Environment, Expression, Import, Method, Mixin, Module, Name, Node, Reference, Sentence, Singleton, Try } from '../model'
 import WRENatives from '../wre/wre.natives'
-import { Evaluation, Execution, ExecutionDefinition, Natives, RuntimeObject, RuntimeValue, WollokException } from './runtimeModel'
+import { Evaluation, EvaluationLimits, Execution, ExecutionAbortedError, ExecutionDefinition, Frame, Natives, nextNode, RecordedInput, RuntimeObject, RuntimeValue, WollokException } from './runtimeModel'
 import * as parse from '../parser'
-import { notEmpty } from '../extensions'
-import { WOLLOK_EXTRA_STACK_TRACE_HEADER } from '../constants'
+import { notEmpty, raise } from '../extensions'
+import { TO_STRING_METHOD, WOLLOK_EXTRA_STACK_TRACE_HEADER } from '../constants'
 import { isVoid } from '../helpers'
 
 export const interpret = (environment: Environment, natives: Natives): Interpreter => new Interpreter(Evaluation.build(environment, natives))
 
 
 // TODO: Replace this with Higher Kinded Types if TS ever implements it...
-type InterpreterResult<This, T> = This extends Interpreter ? T : ExecutionDirector<T>
+type InterpreterResult<This, T> = This extends Interpreter ? T : This extends AsyncInterpreter ? Promise<T> : ExecutionDirector<T>
 
 
 abstract class AbstractInterpreter {
   readonly evaluation: Evaluation
+  /** Once aborted, the executions of this interpreter unwind with an `ExecutionAbortedError`. Forks keep it. */
+  readonly signal?: AbortSignal
 
-  constructor(evaluation: Evaluation) {
+  constructor(evaluation: Evaluation, signal?: AbortSignal) {
     this.evaluation = evaluation
+    this.signal = signal
   }
 
   abstract fork(): this
+  /** Interpreter of the same evaluation whose executions can be aborted with the given signal. */
+  abstract withSignal(signal: AbortSignal): this
   abstract do<T>(executionDefinition: ExecutionDefinition<T>): any
 
 
@@ -88,6 +93,11 @@ const successResult = (result: string): ExecutionResult => ({
 })
 
 export const getStackTraceSanitized = (e?: Error): string[] => {
+  if (e instanceof WollokException) return [
+    `${e.name}: ${e.description}`,
+    ...e.wollokStack.split('\n').filter(line => line.trim()).map(line => line.replace('\t', '  ')),
+  ]
+
   const indexOfTsStack = e?.stack?.indexOf(WOLLOK_EXTRA_STACK_TRACE_HEADER)
   const fullStack = e?.stack?.slice(0, indexOfTsStack ?? -1) ?? ''
 
@@ -101,27 +111,102 @@ export const getStackTraceSanitized = (e?: Error): string[] => {
 }
 
 export class Interpreter extends AbstractInterpreter {
-  constructor(evaluation: Evaluation) { super(evaluation) }
+  constructor(evaluation: Evaluation, signal?: AbortSignal) { super(evaluation, signal) }
 
   fork(): this {
-    return new Interpreter(this.evaluation.copy()) as this
+    return new Interpreter(this.evaluation.copy(), this.signal) as this
+  }
+
+  withSignal(signal: AbortSignal): this {
+    return new Interpreter(this.evaluation, signal) as this
   }
 
   override do<T>(executionDefinition: ExecutionDefinition<T>): T {
-    const execution = executionDefinition.call(this.evaluation)
-    let next = execution.next()
-    while (!next.done) next = execution.next()
-    return next.value as InterpreterResult<this, T>
+    // Executions started while another one is running (for instance, to evaluate a debugger expression) share its limits
+    const topLevel = this.evaluation.frameStack.length === 1
+    if (topLevel) this.evaluation.restartLimits()
+    try {
+      const execution = this.evaluation.abortableBy(this.signal, executionDefinition.call(this.evaluation))
+      let next = nextNode(execution)
+      while (!next.done) {
+        if (!this.evaluation.raisingException) this.evaluation.step(next.value)
+        next = nextNode(execution)
+      }
+      return next.value as InterpreterResult<this, T>
+    } finally {
+      if (topLevel) this.evaluation.input.close?.()
+    }
   }
 
 }
 
+/**
+ * Interpreter that drives executions asynchronously, awaiting the promises yielded by natives (like user input, timers
+ * or host callbacks) and resuming them with their result. Executions on the same evaluation share its frame stack, so
+ * each one must be awaited before starting the next.
+ */
+export class AsyncInterpreter extends AbstractInterpreter {
+  protected running = false
+
+  constructor(evaluation: Evaluation, signal?: AbortSignal) { super(evaluation, signal) }
+
+  fork(): this {
+    return new AsyncInterpreter(this.evaluation.copy(), this.signal) as this
+  }
+
+  withSignal(signal: AbortSignal): this {
+    return new AsyncInterpreter(this.evaluation, signal) as this
+  }
+
+  override async do<T>(executionDefinition: ExecutionDefinition<T>): Promise<T> {
+    if (this.running) throw new Error('Can not start an execution before the previous one is over')
+    this.running = true
+    const topLevel = this.evaluation.frameStack.length === 1
+    try {
+      if (topLevel) this.evaluation.restartLimits()
+      const execution = this.evaluation.abortableBy(this.signal, executionDefinition.call(this.evaluation))
+      let next = execution.next()
+      while (!next.done) {
+        if (next.value instanceof Promise) {
+          let result: unknown
+          try {
+            result = await (this.signal ? untilAborted(this.signal, next.value) : next.value)
+          } catch (error) {
+            next = execution.throw(error)
+            continue
+          }
+          next = execution.next(result)
+        } else {
+          if (!this.evaluation.raisingException) this.evaluation.step(next.value)
+          next = execution.next()
+        }
+      }
+      return next.value
+    } finally {
+      this.running = false
+      if (topLevel) this.evaluation.input.close?.()
+    }
+  }
+
+}
+
+/** Settles like the given promise, unless the signal is aborted first. */
+const untilAborted = <T>(signal: AbortSignal, promise: Promise<T>): Promise<T> => new Promise((resolve, reject) => {
+  const abort = () => reject(new ExecutionAbortedError())
+  if (signal.aborted) return abort()
+  signal.addEventListener('abort', abort, { once: true })
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+})
+
 export function interprete(interpreter: Interpreter, line: string): ExecutionResult {
   try {
-    const sentenceOrImport = parse.Import.or(parse.Variable).or(parse.Assignment).or(parse.Expression).tryParse(line)
+    const sentenceOrImport = parse.Import.or(parse.Class).or(parse.Mixin).or(parse.Variable).or(parse.Assignment).or(parse.Expression).tryParse(line)
     const error = [sentenceOrImport, ...sentenceOrImport.descendants].flatMap(_ => _.problems ?? []).find(_ => _.level === 'error')
     if (error) throw error
 
+    if (sentenceOrImport.is(Class) || sentenceOrImport.is(Mixin) || sentenceOrImport.is(Singleton) && sentenceOrImport.name)
+      return define(interpreter, sentenceOrImport)
+
     if (sentenceOrImport.is(Sentence)) {
       const environment = interpreter.evaluation.environment
       linkSentenceInNode(sentenceOrImport, environment.replNode())
@@ -155,56 +240,443 @@ export function interprete(interpreter: Interpreter, line: string): ExecutionRes
 
     return successResult('')
   } catch (error: any) {
-    return (
-      error.type === 'ParsimmonError' ? failureResult(`Syntax error:\n${error.message.split('\n').filter(notEmpty).slice(1).join('\n')}`) :
-      error instanceof WollokException ? failureResult('Evaluation Error!', error) :
-      error instanceof parse.ParseError ? failureResult(`Syntax Error at offset ${error.sourceMap.start.offset}: ${line.slice(error.sourceMap.start.offset, error.sourceMap.end.offset)}`) :
-      failureResult('Uh-oh... Unexpected TypeScript Error!', error)
-    )
+    return errorResult(error, line)
+  }
+}
+
+/**
+ * Adds the entity to the REPL package, replacing any previous definition with the same name. Named objects are
+ * instantiated right away, so errors in their initialization are reported on definition and leave the previous
+ * definition (and its instance) in place.
+ */
+const define = (interpreter: Interpreter, entity: Class | Mixin | Singleton): ExecutionResult => {
+  const environment = interpreter.evaluation.environment
+  const replNode = environment.replNode()
+  const unknownSupertype = entity.supertypes.find(supertype => !replNode.scope.resolve(supertype.reference.name))
+  if (unknownSupertype) return failureResult(`Unknown reference ${unknownSupertype.reference.name}`)
+
+  const previous = replNode.members.find(member => member.name === entity.name)
+  const defined = relinkEntity(environment, replNode, entity)
+  if (defined.is(Singleton)) {
+    try {
+      const instance = interpreter.do(function* () { return yield* this.instantiate(defined) })
+      interpreter.evaluation.rootFrame.set(defined.fullyQualifiedName, instance)
+    } catch (error) {
+      restoreEntity(environment, replNode, defined, previous)
+      throw error
+    }
+  }
+  return successResult('')
+}
+
+const errorResult = (error: any, source: string): ExecutionResult =>
+  error.type === 'ParsimmonError' ? failureResult(`Syntax error:\n${error.message.split('\n').filter(notEmpty).slice(1).join('\n')}`) :
+  error instanceof WollokException ? failureResult('Evaluation Error!', error) :
+  error instanceof ExecutionAbortedError ? failureResult('Execution aborted', error) :
+  error instanceof parse.ParseError ? failureResult(`Syntax Error at offset ${error.sourceMap.start.offset}: ${source.slice(error.sourceMap.start.offset, error.sourceMap.end.offset)}`) :
+  failureResult('Uh-oh... Unexpected TypeScript Error!', error)
+
+export type FrameEvaluationOptions = {
+  /** Evaluates on the given evaluation instead of a fork of it, so the side effects of the expression are kept. */
+  keepSideEffects?: boolean
+  /** Aborts the evaluation of the expression, like the one of the paused execution. */
+  signal?: AbortSignal
+  /** Limits of the evaluation of the expression, counted apart from the ones of the paused execution. */
+  limits?: EvaluationLimits
+}
+
+/** Limits of the expressions evaluated by the execution director, so one that never ends can't hang the debugger. */
+export const DEBUGGER_EVALUATION_LIMITS: EvaluationLimits = { maxSteps: 100_000, timeout: 5_000 }
+
+/**
+ * Evaluates a Wollok expression as if it was written where the given frame is paused, so `self`, fields, parameters
+ * and locals can be referenced. Unless asked otherwise, it runs on a fork and leaves the evaluation untouched.
+ */
+export function evaluateInFrame(evaluation: Evaluation, frame: Frame, expressionText: string, { keepSideEffects = false, signal, limits }: FrameEvaluationOptions = {}): ExecutionResult & { value?: RuntimeValue } {
+  const frameIndex = evaluation.frameStack.indexOf(frame)
+  if (frameIndex < 0) throw new Error('The frame is not part of the evaluation')
+
+  try {
+    const expression = parse.Expression.tryParse(expressionText)
+    const error = [expression, ...expression.descendants].flatMap(_ => _.problems ?? []).find(_ => _.level === 'error')
+    if (error) throw error
+
+    linkSentenceInNode(expression, frame.currentNode)
+    try {
+      const unknownReference = [expression, ...expression.descendants].find((node): node is Reference<Node> =>
+        node.is(Reference) && !node.target && !frame.get(node.name)
+      )
+      if (unknownReference) return failureResult(`Unknown reference ${unknownReference.name}`)
+
+      const target = keepSideEffects ? evaluation : evaluation.copy()
+      const targetFrame = target.frameStack[frameIndex]
+      const { currentNode } = targetFrame
+      const { eventsSuspended } = target
+      const interpreter = new Interpreter(target, signal)
+      // Tools observing the program (like coverage or profilers) should not count what the debugger evaluates
+      target.eventsSuspended = true
+      try {
+        const value = interpreter.do(function* () {
+          const execution = this.exec(expression, targetFrame)
+          return yield* limits ? this.limitedBy(limits, execution) : execution
+        })
+        return { ...successResult(!value || isVoid(value) ? '' : value.showShortValue(interpreter)), value }
+      } finally {
+        targetFrame.currentNode = currentNode
+        target.eventsSuspended = eventsSuspended
+      }
+    } finally {
+      unlinkSentence(expression)
+    }
+  } catch (error: any) {
+    return errorResult(error, expressionText)
   }
 }
 
 
 export class DirectedInterpreter extends AbstractInterpreter {
-  constructor(evaluation: Evaluation) { super(evaluation) }
+  constructor(evaluation: Evaluation, signal?: AbortSignal) { super(evaluation, signal) }
 
   fork(): this {
-    return new DirectedInterpreter(this.evaluation.copy()) as this
+    return new DirectedInterpreter(this.evaluation.copy(), this.signal) as this
+  }
+
+  withSignal(signal: AbortSignal): this {
+    return new DirectedInterpreter(this.evaluation, signal) as this
   }
 
   override do<T>(executionDefinition: ExecutionDefinition<T>): ExecutionDirector<T> {
-    return new ExecutionDirector(this.evaluation, executionDefinition) as InterpreterResult<this, T>
+    return new ExecutionDirector(this.evaluation, executionDefinition, this.signal) as InterpreterResult<this, T>
   }
 }
 
 export const executionFor = (environment: Environment): DirectedInterpreter =>
   new DirectedInterpreter(Evaluation.build(environment, WRENatives))
 
-// TODO:
-// - track history
-// - conditional breakpoints?
-// - break on exception
+export type BreakpointOptions = {
+  /** Wollok expression, evaluated in the context of the paused frame, that must be true for the breakpoint to halt. */
+  condition?: string
+  /**
+   * Number of hits (counting only those where the condition holds) required to halt. It can be a number (halt from
+   * that hit on) or a string with a comparison operator (`>=`, `>`, `==`, `<=`, `<`) or a modulo (`% 3`) before it.
+   */
+  hitCondition?: number | string
+  /** Message to log instead of halting. Expressions between braces are evaluated and interpolated. */
+  logMessage?: string
+}
+
+const HIT_CONDITION = /^\s*(>=|>|==|=|<=|<|%)?\s*(\d+)\s*$/
+
+export const isValidHitCondition = (hitCondition: number | string): boolean => HIT_CONDITION.test(`${hitCondition}`)
+
+const satisfiesHitCondition = (hits: number, hitCondition: number | string): boolean => {
+  const [, operator = '>=', value] = HIT_CONDITION.exec(`${hitCondition}`)!
+  const target = Number(value)
+  switch (operator) {
+    case '>': return hits > target
+    case '==': case '=': return hits === target
+    case '<=': return hits <= target
+    case '<': return hits < target
+    case '%': return target > 0 && hits % target === 0
+    default: return hits >= target
+  }
+}
+
+/**
+ * When to pause on raised exceptions: never, whenever one is thrown, or only when no active `catch` handles its type.
+ */
+export type ExceptionBreakMode = 'none' | 'all' | 'uncaught'
+
+export type HistoryOptions = {
+  /** How many of the last visited nodes to remember. Older steps can still be jumped to, but are ignored by `reverseContinue`. */
+  maxSteps?: number
+}
+
+const DEFAULT_HISTORY_STEPS = 100_000
+
+type History = {
+  initialState: Evaluation
+  /** Lines read so far, which are read again when the steps that read them are replayed. */
+  input: RecordedInput
+  steps: Node[]
+  firstStep: number
+  maxSteps: number
+  /** Furthest step run so far (one past the last if the execution finished). Jumps replay the steps up to it silently. */
+  lastStep: number
+  /** Hit count of each breakpoint at the steps it changed, so it can be restored with the state. */
+  breakpointHits: Map<Node, Map<number, number>>
+}
 
 export class ExecutionDirector<T> {
   protected readonly evaluation: Evaluation
-  protected readonly execution: Execution<T>
+  protected readonly definition: ExecutionDefinition<T>
+  protected readonly signal?: AbortSignal
+  protected execution: Execution<T>
   readonly breakpoints: Node[] = []
-
-  constructor(evaluation: Evaluation, execution: ExecutionDefinition<T>) {
+  breakOnExceptions: ExceptionBreakMode = 'none'
+  protected readonly breakpointOptions = new Map<Node, BreakpointOptions>()
+  protected readonly breakpointHits = new Map<Node, number>()
+  protected readonly breakpointExpressions = new Map<Node, Map<string, Expression>>()
+  protected stepCount = 0
+  protected pausedAt?: Node
+  protected finished = false
+  protected history?: History
+
+  constructor(evaluation: Evaluation, execution: ExecutionDefinition<T>, signal?: AbortSignal) {
     this.evaluation = evaluation
-    this.execution = execution.call(evaluation)
+    this.definition = execution
+    this.signal = signal
+    this.execution = evaluation.abortableBy(signal, execution.call(evaluation))
+    evaluation.restartLimits()
   }
 
-  addBreakpoint(breakpoint: Node): void {
+  /** Number of nodes yielded so far by the execution. The node where it is paused is the one of this step. */
+  get currentStep(): number { return this.stepCount }
+
+  addBreakpoint(breakpoint: Node, options: BreakpointOptions = {}): void {
+    if (options.hitCondition !== undefined && !isValidHitCondition(options.hitCondition))
+      throw new Error(`Invalid hit condition: ${options.hitCondition}`)
     this.breakpoints.push(breakpoint)
+    this.breakpointOptions.set(breakpoint, options)
+    this.breakpointHits.delete(breakpoint)
+    this.history?.breakpointHits.delete(breakpoint)
+    this.forgetBreakpointExpressions(breakpoint)
   }
 
   removeBreakpoint(breakpoint: Node): void {
     const nextBreakpoints = this.breakpoints.filter(node => node !== breakpoint)
     this.breakpoints.splice(0, this.breakpoints.length)
     this.breakpoints.push(...nextBreakpoints)
+    this.breakpointOptions.delete(breakpoint)
+    this.breakpointHits.delete(breakpoint)
+    this.history?.breakpointHits.delete(breakpoint)
+    this.forgetBreakpointExpressions(breakpoint)
   }
 
+  /**
+   * Evaluates the given expression in one of the frames of the paused execution (see `evaluateInFrame`). Unless told
+   * otherwise, it can be aborted with the execution and is bound by the `DEBUGGER_EVALUATION_LIMITS`.
+   */
+  evaluateInFrame(frame: Frame, expressionText: string, options?: FrameEvaluationOptions): ExecutionResult & { value?: RuntimeValue } {
+    return evaluateInFrame(this.evaluation, frame, expressionText, { signal: this.signal, limits: DEBUGGER_EVALUATION_LIMITS, ...options })
+  }
+
+  hitCount(breakpoint: Node): number {
+    return this.breakpointHits.get(breakpoint) ?? 0
+  }
+
+  protected shouldHaltAtBreakpoint(node: Node): boolean {
+    const { condition, hitCondition, logMessage } = this.breakpointOptions.get(node) ?? {}
+
+    if (condition) {
+      try {
+        if (this.evaluateAtBreakpoint(node, condition)?.innerBoolean !== true) return false
+      } catch {
+        return true
+      }
+    }
+
+    const hits = this.hitCount(node) + 1
+    this.breakpointHits.set(node, hits)
+    if (this.history) {
+      if (!this.history.breakpointHits.has(node)) this.history.breakpointHits.set(node, new Map())
+      this.history.breakpointHits.get(node)!.set(this.stepCount, hits)
+    }
+    if (hitCondition !== undefined && !satisfiesHitCondition(hits, hitCondition)) return false
+
+    if (logMessage !== undefined) {
+      this.evaluation.console.log(logMessage.replace(/\{([^{}]+)\}/g, (_, expression: string) => {
+        try {
+          const value = this.evaluateAtBreakpoint(node, expression)
+          return value ? this.runAtBreakpoint(function* () { return yield* this.send(TO_STRING_METHOD, value) })!.innerString! : 'null'
+        } catch (error) {
+          return `<error: ${error instanceof Error ? error.message.split('\n')[0] : error}>`
+        }
+      }))
+      return false
+    }
+
+    return true
+  }
+
+  protected shouldHaltOnException(exception: WollokException): boolean {
+    if (this.breakOnExceptions === 'all') return true
+    if (this.breakOnExceptions === 'none') return false
+    return !this.isHandled(exception)
+  }
+
+  /** Whether the body of a `try` on the stack has a `catch` for the exception type. */
+  protected isHandled(exception: WollokException): boolean {
+    const exceptionType = exception.instance.module
+    return this.evaluation.frameStack.some(({ node, currentNode }) =>
+      node.is(Try) &&
+      (currentNode === node.body || currentNode.ancestors.includes(node.body)) &&
+      node.catches.some(({ parameterType }) => parameterType.target && exceptionType.inherits(parameterType.target))
+    )
+  }
+
+  /**
+   * Evaluates the given expression in the paused frame. The evaluation is not forked, so conditions and log messages
+   * are cheap enough to check on every iteration of a loop, but any side effect they have is kept.
+   */
+  protected evaluateAtBreakpoint(node: Node, expressionText: string): RuntimeValue {
+    if (!this.breakpointExpressions.has(node)) this.breakpointExpressions.set(node, new Map())
+    const expressions = this.breakpointExpressions.get(node)!
+    if (!expressions.has(expressionText)) {
+      const parsed = parse.Expression.tryParse(expressionText)
+      linkSentenceInNode(parsed, node)
+      expressions.set(expressionText, parsed)
+    }
+    const expression = expressions.get(expressionText)!
+
+    const frame = this.evaluation.currentFrame
+    const currentNode = frame.currentNode
+    try {
+      return this.runAtBreakpoint(function* () { return yield* this.exec(expression) })
+    } finally {
+      frame.currentNode = currentNode
+    }
+  }
+
+  /** Unlinks the expressions parsed for the options of the breakpoint, which may no longer be used. */
+  protected forgetBreakpointExpressions(breakpoint: Node): void {
+    this.breakpointExpressions.get(breakpoint)?.forEach(expression => unlinkSentence(expression))
+    this.breakpointExpressions.delete(breakpoint)
+  }
+
+  /**
+   * Runs an execution on the paused evaluation, abortable with the paused one and bound by the debugger limits. It emits
+   * no events, as it is not part of the program.
+   */
+  protected runAtBreakpoint<R>(definition: ExecutionDefinition<R>): R {
+    const { eventsSuspended } = this.evaluation
+    this.evaluation.eventsSuspended = true
+    try {
+      return new Interpreter(this.evaluation, this.signal).do(function* () {
+        return yield* this.limitedBy(DEBUGGER_EVALUATION_LIMITS, definition.call(this))
+      })
+    } finally {
+      this.evaluation.eventsSuspended = eventsSuspended
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // HISTORY
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Starts recording the execution history, so it can be navigated backwards. Generators can't be cloned, so going back
+   * restores a snapshot of the initial state and silently replays the execution up to the requested step (which
+   * assumes the execution is deterministic, so the lines it reads are recorded to be read again). Only the visited nodes
+   * are recorded, up to the configured budget.
+   */
+  recordHistory({ maxSteps = DEFAULT_HISTORY_STEPS }: HistoryOptions = {}): void {
+    if (this.stepCount) throw new Error('Execution history can only be recorded from the start of the execution')
+    const input = new RecordedInput(this.evaluation.input)
+    this.evaluation.input = input
+    this.history = { initialState: this.evaluation.copy(), input, steps: [], firstStep: 1, maxSteps, lastStep: 0, breakpointHits: new Map() }
+  }
+
+  get isRecordingHistory(): boolean { return !!this.history }
+
+  stepBack(): ExecutionState<T> {
+    return this.jumpToStep(this.finished ? this.stepCount : this.stepCount - 1)
+  }
+
+  /** Goes back to the last visited breakpoint (regardless of its options) or to the first step if there is none. */
+  reverseContinue(): ExecutionState<T> {
+    const history = this.requireHistory()
+    const lastStep = this.finished ? this.stepCount : this.stepCount - 1
+    for (let step = lastStep; step >= history.firstStep; step--)
+      if (this.breakpoints.includes(history.steps[step - history.firstStep])) return this.jumpToStep(step)
+    return this.jumpToStep(1)
+  }
+
+  /**
+   * Steps that already ran are replayed silently, without output nor events, as they were already observed. Steps past
+   * them run as if resumed, so they can halt at breakpoints before reaching the requested one.
+   */
+  jumpToStep(step: number): ExecutionState<T> {
+    const history = this.requireHistory()
+    const target = Math.max(step, 1)
+
+    if (target < this.stepCount || this.finished) {
+      this.evaluation.restore(history.initialState)
+      history.input.rewind()
+      this.execution = this.evaluation.abortableBy(this.signal, this.definition.call(this.evaluation))
+      this.stepCount = 0
+      this.finished = false
+      this.evaluation.restartLimits()
+    }
+
+    const { console } = this.evaluation
+    this.evaluation.console = { ...console, log: () => undefined }
+    this.evaluation.eventsSuspended = true
+    try {
+      while (this.stepCount < target && this.stepCount < history.lastStep) {
+        const next = this.advance()
+        if (next.done) return { done: true, result: next.value }
+      }
+    } catch (error) {
+      this.finished = true
+      if (error instanceof WollokException) return { done: true, error }
+      if (error instanceof ExecutionAbortedError) return { done: true, aborted: error }
+      throw error
+    } finally {
+      this.evaluation.console = console
+      this.evaluation.eventsSuspended = false
+      this.restoreBreakpointHits(history)
+    }
+
+    return this.stepCount < target
+      ? this.resume(() => this.stepCount >= target)
+      : { done: false, next: this.pausedAt!, exception: this.evaluation.raisingException }
+  }
+
+  /** Sets the hit count of each breakpoint to the one it had at the current step. */
+  protected restoreBreakpointHits(history: History): void {
+    this.breakpointHits.clear()
+    for (const [node, hitsByStep] of history.breakpointHits) {
+      const steps = [...hitsByStep.keys()].filter(step => step <= this.stepCount)
+      if (steps.length) this.breakpointHits.set(node, hitsByStep.get(Math.max(...steps))!)
+    }
+  }
+
+  protected requireHistory(): History {
+    return this.history ?? raise(new Error('Execution history is not being recorded'))
+  }
+
+  protected advance(): IteratorResult<Node, T> {
+    const next = nextNode(this.execution)
+    const { history } = this
+    if (next.done) {
+      this.finished = true
+      if (history) history.lastStep = Math.max(history.lastStep, this.stepCount + 1)
+      return next
+    }
+
+    this.stepCount++
+    this.pausedAt = next.value
+    if (history) {
+      history.lastStep = Math.max(history.lastStep, this.stepCount)
+      if (this.stepCount < history.firstStep) {
+        history.steps = []
+        history.firstStep = this.stepCount
+      }
+      history.steps.length = this.stepCount - history.firstStep
+      history.steps.push(next.value)
+      if (history.steps.length > history.maxSteps) {
+        history.steps.shift()
+        history.firstStep++
+      }
+    }
+    return next
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // EXECUTION
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
   finish(): ExecutionState<T> & { done: true } {
     let result = this.resume()
     while (!result.done) result = this.resume()
@@ -213,16 +685,24 @@ export class ExecutionDirector<T> {
 
   resume(shouldHalt: (next: Node, evaluation: Evaluation) => boolean = () => false): ExecutionState<T> {
     try {
-      let next = this.execution.next()
+      let next = this.advance()
       while (!next.done) {
-        if (this.breakpoints.includes(next.value) || shouldHalt(next.value, this.evaluation))
-          return { done: false, next: next.value }
-
-        next = this.execution.next()
+        const exception = this.evaluation.raisingException
+        if (exception) {
+          if (this.shouldHaltOnException(exception)) return { done: false, next: next.value, exception }
+        } else {
+          this.evaluation.step(next.value)
+          if (this.breakpoints.includes(next.value) && this.shouldHaltAtBreakpoint(next.value) || shouldHalt(next.value, this.evaluation))
+            return { done: false, next: next.value }
+        }
+
+        next = this.advance()
       }
       return { done: true, result: next.value }
     } catch (error) {
+      this.finished = true
       if (error instanceof WollokException) return { done: true, error }
+      if (error instanceof ExecutionAbortedError) return { done: true, aborted: error }
       throw error
     }
   }
@@ -253,7 +733,8 @@ export class ExecutionDirector<T> {
 }
 
 export type ExecutionState<T> = Readonly<
-  { done: false, next: Node, error?: undefined } |
-  { done: true, error: WollokException } |
-  { done: true, result: T, error?: undefined }
+  { done: false, next: Node, error?: undefined, exception?: WollokException, aborted?: undefined } |
+  { done: true, error: WollokException, exception?: undefined, aborted?: undefined } |
+  { done: true, result: T, error?: undefined, exception?: undefined, aborted?: undefined } |
+  { done: true, aborted: ExecutionAbortedError, error?: undefined, exception?: undefined }
 >
\ No newline at end of file
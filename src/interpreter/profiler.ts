@@ -0,0 +1,267 @@
+import { List } from '../extensions'
+import { Method, Node, Program, Test } from '../model'
+import { Evaluation, EvaluationListener, Frame, StepEvent } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type MethodProfile = {
+  /** Fully qualified name and arity of the method (like `birds.pepita.fly/1`), or the name of the program or test. */
+  name: string
+  /** Description of the frames of the method, as shown in the stack traces. */
+  description: string
+  fileName?: string
+  line?: number
+  calls: number
+  /** Steps taken while the method was on the stack, counting recursive calls once. */
+  inclusiveSteps: number
+  /** Steps taken by the method itself, without the methods it called. */
+  exclusiveSteps: number
+  /** Milliseconds spent while the method was on the stack, counting recursive calls once. */
+  inclusiveTime: number
+  /** Milliseconds spent by the method itself, without the methods it called. */
+  exclusiveTime: number
+}
+
+export type CallEdge = { caller: string, callee: string, calls: number }
+
+export type ProfileSortKey = 'calls' | 'inclusiveSteps' | 'exclusiveSteps' | 'inclusiveTime' | 'exclusiveTime'
+
+export type ProfileReportOptions = {
+  /** How many methods to list. Defaults to 20. */
+  top?: number
+  /** Defaults to `exclusiveSteps`. */
+  sortBy?: ProfileSortKey
+}
+
+/** Chrome DevTools `.cpuprofile` format, also understood by speedscope. Times are in microseconds. */
+export type CpuProfile = {
+  nodes: List<CpuProfileNode>
+  startTime: number
+  endTime: number
+  samples: List<number>
+  timeDeltas: List<number>
+}
+
+export type CpuProfileNode = {
+  id: number
+  callFrame: { functionName: string, scriptId: string, url: string, lineNumber: number, columnNumber: number }
+  hitCount: number
+  children: List<number>
+}
+
+type CallTreeNode = {
+  id: number
+  profile?: MethodProfile
+  hitCount: number
+  children: Map<string, CallTreeNode>
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// PROFILER
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const ROOT_NAME = '(root)'
+
+const isProfiled = (frame: Frame): boolean => frame.node.is(Method) || frame.node.is(Program) || frame.node.is(Test)
+
+const profileName = (node: Node): string =>
+  node.is(Method) ? `${node.parent.fullyQualifiedName}.${node.name}/${node.parameters.length}` : (node as Program | Test).fullyQualifiedName
+
+/**
+ * Measures the executions of the evaluations it is attached to (and their copies), method by method. Each yielded node
+ * is a step, attributed to the methods, programs and tests on the frame stack, as is the time elapsed until the next
+ * step. Natives are profiled like any other method, so the closures they evaluate are their callees.
+ */
+export class Profiler {
+  protected readonly profiles = new Map<string, MethodProfile>()
+  protected readonly callEdges = new Map<string, CallEdge>()
+  protected root: CallTreeNode = { id: 1, hitCount: 0, children: new Map() }
+  protected nodeCount = 1
+  protected startTime?: number
+  protected lastStepTime?: number
+  protected lastSampleTime?: number
+  protected lastFrames: List<Frame> = []
+  protected lastStack: List<MethodProfile> = []
+  protected lastTreeNode?: CallTreeNode
+  protected samples: number[] = []
+  protected timeDeltas: number[] = []
+  protected readonly listener: EvaluationListener<StepEvent> = (_, evaluation) => this.step(evaluation)
+
+  attach(evaluation: Evaluation): this {
+    evaluation.off('step', this.listener)
+    evaluation.onStep(this.listener)
+    return this
+  }
+
+  detach(evaluation: Evaluation): this {
+    evaluation.off('step', this.listener)
+    this.flushTime(performance.now())
+    this.lastStepTime = undefined
+    return this
+  }
+
+  reset(): void {
+    this.profiles.clear()
+    this.callEdges.clear()
+    this.root = { id: 1, hitCount: 0, children: new Map() }
+    this.nodeCount = 1
+    this.startTime = undefined
+    this.lastStepTime = undefined
+    this.lastSampleTime = undefined
+    this.lastFrames = []
+    this.lastStack = []
+    this.lastTreeNode = undefined
+    this.samples = []
+    this.timeDeltas = []
+  }
+
+  methods(): List<MethodProfile> {
+    return [...this.profiles.values()]
+  }
+
+  edges(): List<CallEdge> {
+    return [...this.callEdges.values()]
+  }
+
+  profileOf(name: string): MethodProfile | undefined {
+    return this.profiles.get(name)
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // RECORDING
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  protected step(evaluation: Evaluation): void {
+    const now = performance.now()
+    this.startTime ??= now
+    this.flushTime(now)
+
+    const frames = evaluation.frameStack.filter(isProfiled)
+    const stack = frames.map(frame => this.profileFor(frame))
+    const current = stack[stack.length - 1]
+
+    // Frames that were not on the stack on the last step are new calls
+    const firstCall = frames.findIndex((frame, index) => frame !== this.lastFrames[index])
+    if (firstCall >= 0) for (let index = firstCall; index < stack.length; index++) {
+      stack[index].calls++
+      if (index) this.countCall(stack[index - 1], stack[index])
+    }
+
+    for (const profile of new Set(stack)) profile.inclusiveSteps++
+    if (current) current.exclusiveSteps++
+
+    const treeNode = stack.reduce((parent, profile) => this.treeChild(parent, profile), this.root)
+    treeNode.hitCount++
+    if (treeNode !== this.lastTreeNode) {
+      this.samples.push(treeNode.id)
+      this.timeDeltas.push(Math.round((now - (this.lastSampleTime ?? now)) * 1000))
+      this.lastSampleTime = now
+    }
+
+    this.lastTreeNode = treeNode
+    this.lastFrames = frames
+    this.lastStack = stack
+    this.lastStepTime = now
+  }
+
+  /** The time since the last step is spent by the stack of that step. */
+  protected flushTime(now: number): void {
+    if (this.lastStepTime === undefined) return
+    const elapsed = now - this.lastStepTime
+    for (const profile of new Set(this.lastStack)) profile.inclusiveTime += elapsed
+    const current = this.lastStack[this.lastStack.length - 1]
+    if (current) current.exclusiveTime += elapsed
+    this.lastStepTime = now
+  }
+
+  protected profileFor(frame: Frame): MethodProfile {
+    const name = profileName(frame.node)
+    let profile = this.profiles.get(name)
+    if (!profile) {
+      profile = {
+        name,
+        description: frame.description,
+        fileName: frame.node.sourceFileName,
+        line: frame.node.sourceMap?.start.line,
+        calls: 0,
+        inclusiveSteps: 0,
+        exclusiveSteps: 0,
+        inclusiveTime: 0,
+        exclusiveTime: 0,
+      }
+      this.profiles.set(name, profile)
+    }
+    return profile
+  }
+
+  protected countCall(caller: MethodProfile, callee: MethodProfile): void {
+    const key = `${caller.name} -> ${callee.name}`
+    const edge = this.callEdges.get(key) ?? { caller: caller.name, callee: callee.name, calls: 0 }
+    edge.calls++
+    this.callEdges.set(key, edge)
+  }
+
+  protected treeChild(parent: CallTreeNode, profile: MethodProfile): CallTreeNode {
+    let child = parent.children.get(profile.name)
+    if (!child) {
+      child = { id: ++this.nodeCount, profile, hitCount: 0, children: new Map() }
+      parent.children.set(profile.name, child)
+    }
+    return child
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // EXPORT
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  /** Call tree of the recorded steps in the `.cpuprofile` format. Consecutive steps on the same stack are one sample. */
+  toCpuProfile(): CpuProfile {
+    const nodes: CpuProfileNode[] = []
+    const visit = (treeNode: CallTreeNode): void => {
+      const children = [...treeNode.children.values()]
+      nodes.push({
+        id: treeNode.id,
+        callFrame: {
+          functionName: treeNode.profile?.description ?? ROOT_NAME,
+          scriptId: '0',
+          url: treeNode.profile?.fileName ?? '',
+          lineNumber: (treeNode.profile?.line ?? 1) - 1,
+          columnNumber: 0,
+        },
+        hitCount: treeNode.hitCount,
+        children: children.map(child => child.id),
+      })
+      children.forEach(visit)
+    }
+    visit(this.root)
+
+    return {
+      nodes,
+      startTime: Math.round((this.startTime ?? 0) * 1000),
+      endTime: Math.round((this.lastStepTime ?? this.startTime ?? 0) * 1000),
+      samples: [...this.samples],
+      timeDeltas: [...this.timeDeltas],
+    }
+  }
+
+  /** Plain text table of the methods that took the most steps (or whatever the sort key is). */
+  report({ top = 20, sortBy = 'exclusiveSteps' }: ProfileReportOptions = {}): string {
+    const methods = [...this.profiles.values()].sort((one, other) => other[sortBy] - one[sortBy]).slice(0, top)
+    const rows = methods.map(method => [
+      method.description,
+      `${method.calls}`,
+      `${method.exclusiveSteps}`,
+      `${method.inclusiveSteps}`,
+      method.exclusiveTime.toFixed(2),
+      method.inclusiveTime.toFixed(2),
+    ])
+    const header = ['Method', 'Calls', 'Self steps', 'Total steps', 'Self ms', 'Total ms']
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)))
+    const format = (row: List<string>) => row.map((cell, column) => column ? cell.padStart(widths[column]) : cell.padEnd(widths[column])).join('  ').trimEnd()
+
+    return [format(header), ...rows.map(format)].join('\n')
+  }
+
+}
\ No newline at end of file
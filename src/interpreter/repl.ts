@@ -0,0 +1,401 @@
+import { ASSIGNATION_OPERATORS, INFIX_OPERATORS, KEYWORDS, PREFIX_OPERATORS, REPL } from '../constants'
+import { keys, last, List } from '../extensions'
+import { isNamedSingleton } from '../helpers'
+import link, { linkSentenceInNode } from '../linker'
+import { Body, Class, Environment, Expression, Literal, Name, New, Package, Program, Reference, Singleton, Variable } from '../model'
+import * as parse from '../parser'
+import { inferTypes } from '../typeSystem/constraintBasedTypeSystem'
+import WRENatives from '../wre/wre.natives'
+import { DynamicDiagramElement, getDynamicDiagramData } from './dynamicDiagram'
+import { ExecutionResult, interprete, Interpreter } from './interpreter'
+import { Evaluation, Natives, RuntimeObject } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type REPLResult = ExecutionResult & {
+  /** Whether the input is incomplete and the session is waiting for more lines before running it. */
+  pending: boolean
+  /** Structured output of the meta-command, if the input was one. `result` holds its plain text rendering. */
+  output?: REPLCommandOutput
+}
+
+export type REPLCommandOutput
+  = { command: 'reload', migrated: List<Name>, dropped: List<Name>, failedDefinitions: List<string> }
+  | { command: 'type', expression: string, type: string }
+  | { command: 'help', commands: List<REPLCommand> }
+  | { command: 'history', entries: List<string> }
+  | { command: 'clear' }
+  | { command: 'diagram', elements: List<DynamicDiagramElement> }
+
+export type REPLCommand = { name: REPLCommandOutput['command'], usage: string, description: string }
+
+export type REPLSessionOptions = {
+  /** Builds the environment again from the project files, for `:reload`. Unless given, the session can not be reloaded. */
+  buildEnvironment?: () => Environment
+  /** Natives of the rebuilt environments. Defaults to the WRE natives. */
+  natives?: Natives
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// INPUT
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const OPENING_DELIMITERS = ['(', '[', '{']
+const CLOSING_DELIMITERS = [')', ']', '}']
+const WILDCARD_IMPORT = '.*'
+const TRAILING_OPERATORS: List<string> = [...INFIX_OPERATORS.flat(), ...ASSIGNATION_OPERATORS, ...keys(PREFIX_OPERATORS), '.', ',', '=>']
+
+/** Index of the quote that closes the string opened at the given index, or -1 if the string is not closed. */
+const closingQuote = (input: string, start: number): number => {
+  for (let index = start + 1; index < input.length; index++) {
+    if (input[index] === '\\') index++
+    else if (input[index] === input[start]) return index
+  }
+  return -1
+}
+
+const endsWithOperator = (code: string): boolean => TRAILING_OPERATORS.some(operator =>
+  /^\w+$/.test(operator) ? new RegExp(`(^|\\W)${operator}$`).test(code) : code.endsWith(operator)
+)
+
+/**
+ * Whether the input needs more lines to be complete: it has unclosed parentheses, brackets, braces, strings or
+ * comments, or it ends with an operator (other than the `*` of a wildcard import). Input with more closing delimiters than opening ones is complete, so the
+ * parser can report it.
+ */
+export const isIncompleteInput = (input: string): boolean => {
+  const opened: string[] = []
+  let code = ''
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (char === '"' || char === '\'') {
+      index = closingQuote(input, index)
+      if (index < 0) return true
+      code += '""'
+    } else if (input.startsWith('//', index)) {
+      const lineEnd = input.indexOf('\n', index)
+      index = lineEnd < 0 ? input.length : lineEnd - 1
+    } else if (input.startsWith('/*', index)) {
+      const commentEnd = input.indexOf('*/', index + 2)
+      if (commentEnd < 0) return true
+      index = commentEnd + 1
+      code += ' '
+    } else {
+      if (OPENING_DELIMITERS.includes(char)) opened.push(char)
+      if (CLOSING_DELIMITERS.includes(char) && !opened.pop()) return false
+      code += char
+    }
+  }
+
+  const trimmedCode = code.trimEnd()
+  return opened.length > 0 || !trimmedCode.endsWith(WILDCARD_IMPORT) && endsWithOperator(trimmedCode)
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// SESSION
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export const REPL_COMMANDS: List<REPLCommand> = [
+  { name: 'reload', usage: ':reload', description: 'Rebuilds the environment from the project files, keeping the values of the REPL variables that can be migrated' },
+  { name: 'type', usage: ':type <expression>', description: 'Shows the inferred type of the expression, without evaluating it' },
+  { name: 'help', usage: ':help', description: 'Lists the available commands' },
+  { name: 'history', usage: ':history', description: 'Lists the inputs of the session' },
+  { name: 'clear', usage: ':clear', description: 'Clears the console and discards any pending input' },
+  { name: 'diagram', usage: ':diagram', description: 'Dumps the objects reachable from the REPL, as shown by the dynamic diagram' },
+]
+
+const COMMAND_PREFIX = ':'
+const IMPORT_INPUT = new RegExp(`^\\s*${KEYWORDS.IMPORT}\\s`)
+const TYPE_PROGRAM = '<type>'
+
+/**
+ * Interactive session over an interpreter. Lines are buffered until they make a complete input, which is then run as
+ * a sentence, an import or the definition of a class, mixin or named object in the REPL package. Redefining an entity
+ * replaces the previous definition for the inputs that follow, while the existing instances keep their old module.
+ *
+ * Lines starting with `:` are meta-commands (see `REPL_COMMANDS`), even while other lines are pending. Their results
+ * carry a structured `output`, so each client can render them its own way.
+ */
+export class REPLSession {
+  /** Interpreter the inputs run on. Reloading replaces it with one over the rebuilt environment. */
+  interpreter: Interpreter
+  readonly options: REPLSessionOptions
+  protected pendingLines: string[] = []
+  protected inputs: string[] = []
+  /** Imports and definitions run on the session, to be run again on reload (even the ones that failed last time). */
+  protected definitions: string[] = []
+
+  constructor(interpreter: Interpreter, options: REPLSessionOptions = {}) {
+    this.interpreter = interpreter
+    this.options = options
+  }
+
+  /** Lines buffered so far, waiting for the rest of the input. */
+  get pendingInput(): string {
+    return this.pendingLines.join('\n')
+  }
+
+  get isPending(): boolean {
+    return this.pendingLines.length > 0
+  }
+
+  /** Complete inputs of the session, meta-commands included, oldest first. */
+  get history(): List<string> {
+    return [...this.inputs]
+  }
+
+  input(line: string): REPLResult {
+    if (line.trim().startsWith(COMMAND_PREFIX)) {
+      this.inputs.push(line.trim())
+      return this.command(line.trim().slice(COMMAND_PREFIX.length))
+    }
+
+    this.pendingLines.push(line)
+    const input = this.pendingInput
+
+    if (!input.trim()) {
+      this.pendingLines = []
+      return { result: '', errored: false, pending: false }
+    }
+
+    if (isIncompleteInput(input)) return { result: '', errored: false, pending: true }
+
+    this.pendingLines = []
+    this.inputs.push(input)
+    return { ...this.run(input), pending: false }
+  }
+
+  /** Discards the buffered lines. */
+  cancel(): void {
+    this.pendingLines = []
+  }
+
+  protected run(input: string): ExecutionResult {
+    const replNode = () => this.interpreter.evaluation.environment.replNode()
+    const members = replNode().members
+    const result = interprete(this.interpreter, input)
+    if (!result.errored && (IMPORT_INPUT.test(input) || replNode().members !== members)) this.definitions.push(input)
+    return result
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // COMMANDS
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  protected command(commandLine: string): REPLResult {
+    const [name] = commandLine.trim().split(/\s+/)
+    const argument = commandLine.trim().slice(name.length).trim()
+
+    switch (name) {
+      case 'reload': return this.reload()
+      case 'type': return this.type(argument)
+      case 'help': return this.help()
+      case 'history': return this.listHistory()
+      case 'clear': return this.clear()
+      case 'diagram': return this.diagram()
+      default: return failure(`Unknown command ${COMMAND_PREFIX}${name}. Type ${COMMAND_PREFIX}help to list the available commands`)
+    }
+  }
+
+  /**
+   * Builds a new interpreter over the rebuilt environment, runs the imports and definitions of the session again and
+   * moves over the values of the REPL variables. Values are migrated if their modules are still there: instances of
+   * classes keep their fields (as long as the class still has the same ones), named objects are replaced by the new
+   * ones and the rest of the values are dropped, along with their variables.
+   */
+  protected reload(): REPLResult {
+    if (!this.options.buildEnvironment) return failure('This session can not be reloaded')
+
+    let interpreter: Interpreter
+    try {
+      const environment = this.options.buildEnvironment()
+      const replEnvironment = environment.getNodeOrUndefinedByFQN(REPL) ? environment : link([new Package({ name: REPL })], environment)
+      const { evaluation } = this.interpreter
+      const newEvaluation = Evaluation.build(replEnvironment, this.options.natives ?? WRENatives, { random: evaluation.random, clock: evaluation.clock, input: evaluation.input })
+      newEvaluation.console = evaluation.console
+      newEvaluation.limits = evaluation.limits
+      interpreter = new Interpreter(newEvaluation, this.interpreter.signal)
+    } catch (error) {
+      return failure(`Could not rebuild the environment: ${error instanceof Error ? error.message : error}`, error instanceof Error ? error : undefined)
+    }
+
+    const failedDefinitions = this.definitions.filter(definition => interprete(interpreter, definition).errored)
+
+    const migrated: Name[] = []
+    const dropped: Name[] = []
+    const migratedObjects = new Map<RuntimeObject, RuntimeObject>()
+    for (const [variable, value] of this.bindings()) {
+      const migratedValue = migrate(value, interpreter, migratedObjects)
+      if (!migratedValue) {
+        dropped.push(variable.name)
+        continue
+      }
+      linkSentenceInNode(new Variable({ name: variable.name, isConstant: variable.isConstant, value: new Literal({ value: null }) }), interpreter.evaluation.environment.replNode())
+      interpreter.evaluation.rootFrame.set(variable.fullyQualifiedName, migratedValue)
+      migrated.push(variable.name)
+    }
+
+    this.interpreter = interpreter
+    this.pendingLines = []
+
+    return {
+      result: [
+        'Environment reloaded',
+        ...migrated.length ? [`Kept: ${migrated.join(', ')}`] : [],
+        ...dropped.length ? [`Dropped: ${dropped.join(', ')}`] : [],
+        ...failedDefinitions.map(definition => `Could not define again: ${definition}`),
+      ].join('\n'),
+      errored: false,
+      pending: false,
+      output: { command: 'reload', migrated, dropped, failedDefinitions },
+    }
+  }
+
+  /**
+   * Infers the type of the expression on a copy of the environment, where it is the last sentence of a program that
+   * declares the REPL variables. Variables are typed after the module of their current value, since their
+   * declarations are gone.
+   */
+  protected type(expressionText: string): REPLResult {
+    const parsed = parse.Expression.parse(expressionText)
+    const problem = parsed.status && [parsed.value, ...parsed.value.descendants].flatMap(node => node.problems ?? []).find(problem => problem.level === 'error')
+    if (!parsed.status || problem || !expressionText) return failure(`Syntax error: ${COMMAND_PREFIX}type expects an expression`)
+
+    try {
+      const { environment } = this.interpreter.evaluation
+      const replNode = environment.replNode()
+      const declarations = this.bindings().flatMap(([variable, value]) => {
+        const hint = typeHint(value)
+        return hint ? [new Variable({ name: variable.name, isConstant: true, value: hint })] : []
+      })
+      const program = new Program({ name: TYPE_PROGRAM, body: new Body({ sentences: [...declarations, parsed.value] }) })
+      const typedEnvironment = link([new Package({ name: REPL, fileName: replNode.fileName, imports: replNode.imports, members: [...replNode.members, program] })], environment)
+      inferTypes(typedEnvironment)
+
+      const type = last(typedEnvironment.getNodeByFQN<Program>(`${REPL}.${TYPE_PROGRAM}`).body.sentences)!.type.name
+      return { result: type, errored: false, pending: false, output: { command: 'type', expression: expressionText, type } }
+    } catch (error) {
+      return failure(`Could not infer the type of ${expressionText}`, error instanceof Error ? error : undefined)
+    }
+  }
+
+  protected help(): REPLResult {
+    const width = Math.max(...REPL_COMMANDS.map(command => command.usage.length))
+    return {
+      result: REPL_COMMANDS.map(command => `${command.usage.padEnd(width)}  ${command.description}`).join('\n'),
+      errored: false,
+      pending: false,
+      output: { command: 'help', commands: REPL_COMMANDS },
+    }
+  }
+
+  protected listHistory(): REPLResult {
+    const entries = this.inputs.slice(0, -1)
+    return {
+      result: entries.map((entry, index) => `${`${index + 1}`.padStart(`${entries.length}`.length)}  ${entry}`).join('\n'),
+      errored: false,
+      pending: false,
+      output: { command: 'history', entries },
+    }
+  }
+
+  protected clear(): REPLResult {
+    this.pendingLines = []
+    return { result: '', errored: false, pending: false, output: { command: 'clear' } }
+  }
+
+  protected diagram(): REPLResult {
+    const elements = getDynamicDiagramData(this.interpreter)
+    return {
+      result: JSON.stringify(elements, undefined, 2),
+      errored: false,
+      pending: false,
+      output: { command: 'diagram', elements },
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // HELPERS
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  /** Variables declared on the session (rather than on the REPL file) and their current values. */
+  protected bindings(): List<[Variable, RuntimeObject]> {
+    const { environment, rootFrame } = this.interpreter.evaluation
+    const replNode = environment.replNode()
+    return [...rootFrame.locals.keys()].flatMap(name => {
+      if (!name.startsWith(`${REPL}.`)) return []
+      const variable = environment.getNodeOrUndefinedByFQN<Variable>(name)
+      const value = rootFrame.get(name)
+      return variable?.is(Variable) && !replNode.members.includes(variable) && value ? [[variable, value]] : []
+    })
+  }
+
+}
+
+const failure = (message: string, error?: Error): REPLResult => ({ result: message, error, errored: true, pending: false })
+
+/**
+ * Equivalent of the value in the evaluation of the given interpreter, or `undefined` if it can not be moved there.
+ * Instances are registered before their contents are migrated, so cycles are kept. If the value can not be moved,
+ * every instance registered while trying is discarded, since they may reach the value through one of those cycles.
+ */
+const migrate = (value: RuntimeObject, interpreter: Interpreter, migrated: Map<RuntimeObject, RuntimeObject>): RuntimeObject | undefined => {
+  const existing = migrated.get(value)
+  if (existing) return existing
+
+  const previouslyMigrated = migrated.size
+  const instance = migrateObject(value, interpreter, migrated)
+  if (!instance) for (const key of [...migrated.keys()].slice(previouslyMigrated)) migrated.delete(key)
+  return instance
+}
+
+const migrateObject = (value: RuntimeObject, interpreter: Interpreter, migrated: Map<RuntimeObject, RuntimeObject>): RuntimeObject | undefined => {
+  const { evaluation } = interpreter
+  const { innerValue } = value
+  if (innerValue === null || typeof innerValue === 'number' || typeof innerValue === 'string' || typeof innerValue === 'boolean')
+    return interpreter.reify(innerValue)
+
+  if (value.module.is(Singleton)) return isNamedSingleton(value.module) ? evaluation.rootFrame.get(value.module.fullyQualifiedName) : undefined
+  const module = evaluation.environment.getNodeOrUndefinedByFQN(value.module.fullyQualifiedName)
+  if (!module?.is(Class)) return undefined
+
+  if (value.innerCollection) {
+    const elements: RuntimeObject[] = []
+    const instance = new RuntimeObject(module, evaluation.rootFrame, elements)
+    migrated.set(value, instance)
+    for (const element of value.innerCollection) {
+      const migratedElement = migrate(element, interpreter, migrated)
+      if (!migratedElement) return undefined
+      elements.push(migratedElement)
+    }
+    return instance
+  }
+
+  if (innerValue !== undefined) return undefined
+
+  const fieldNames = module.allFields.map(field => field.name)
+  const localNames = [...value.locals.keys()].filter(name => name !== KEYWORDS.SELF)
+  if (fieldNames.length !== localNames.length || !localNames.every(name => fieldNames.includes(name))) return undefined
+
+  const instance = new RuntimeObject(module, evaluation.rootFrame)
+  migrated.set(value, instance)
+  for (const name of localNames) {
+    const fieldValue = value.get(name)
+    const migratedValue = fieldValue && migrate(fieldValue, interpreter, migrated)
+    if (!migratedValue) return undefined
+    instance.set(name, migratedValue)
+  }
+  return instance
+}
+
+/** Expression with the type of the value, to declare it to the type system. Anonymous objects and closures have none. */
+const typeHint = (value: RuntimeObject): Expression | undefined => {
+  if (value.innerValue === null) return new Literal({ value: null })
+  if (isNamedSingleton(value.module)) return new Reference({ name: value.module.fullyQualifiedName })
+  if (value.module.is(Singleton)) return undefined
+  return new New({ instantiated: new Reference({ name: value.module.fullyQualifiedName }) })
+}
\ No newline at end of file
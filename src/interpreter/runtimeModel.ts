@@ -1,8 +1,8 @@
 import { v4 as uuid } from 'uuid'
-import { BOOLEAN_MODULE, CLOSURE_EVALUATE_METHOD, CLOSURE_MODULE, DATE_MODULE, DICTIONARY_MODULE, EXCEPTION_MODULE, INITIALIZE_METHOD, KEYWORDS, LIST_MODULE, NUMBER_MODULE, OBJECT_MODULE, PAIR_MODULE, RANGE_MODULE, SET_MODULE, STRING_MODULE, TO_STRING_METHOD, VOID_WKO, WOLLOK_BASE_PACKAGE, WOLLOK_EXTRA_STACK_TRACE_HEADER } from '../constants'
+import { BOOLEAN_MODULE, CLOSURE_EVALUATE_METHOD, CLOSURE_MODULE, DATE_MODULE, DICTIONARY_MODULE, EVALUATION_ERROR_MODULE, EXCEPTION_MODULE, INITIALIZE_METHOD, KEYWORDS, LIST_MODULE, NUMBER_MODULE, OBJECT_MODULE, PAIR_MODULE, RANGE_MODULE, SET_MODULE, STACK_OVERFLOW_EXCEPTION_MODULE, STRING_MODULE, TO_STRING_METHOD, VOID_WKO, WOLLOK_BASE_PACKAGE, WOLLOK_EXTRA_STACK_TRACE_HEADER } from '../constants'
 import { get, is, last, List, match, otherwise, raise, when } from '../extensions'
 import { assertNotVoid, getExpressionFor, getMethodContainer, getUninitializedAttributesForInstantiation, isNamedSingleton, isVoid, loopInAssignment, showParameter, superMethodDefinition, targetName } from '../helpers'
-import { Assignment, Body, Catch, Class, Describe, Entity, Environment, Expression, Field, Id, If, Literal, LiteralValue, Method, Module, Name, New, Node, Program, Reference, Return, Self, Send, Singleton, Super, Test, Throw, Try, Variable } from '../model'
+import { Assignment, Body, Catch, Class, Describe, Entity, Environment, Expression, Field, Id, If, Literal, LiteralValue, Method, Module, Name, New, Node, Program, Reference, Return, Self, Send, Singleton, SourceMap, Super, Test, Throw, Try, Variable } from '../model'
 import { Interpreter } from './interpreter'
 
 const { isArray } = Array
@@ -11,13 +11,74 @@ const { isInteger } = Number
 
 const DECIMAL_PRECISION = 5
 
-export type Execution<T> = Generator<Node, T>
+/**
+ * Executions yield every node they visit. Natives may also yield promises: asynchronous interpreters await them and
+ * resume the execution with their result, while synchronous ones raise an error where the promise was yielded.
+ */
+export type Execution<T> = Generator<Node | Promise<unknown>, T, any>
 export type ExecutionDefinition<T> = (this: Evaluation) => Execution<T>
 
+/**
+ * Advances an execution up to the next visited node. Promises yielded on the way can't be awaited synchronously, so an
+ * error is raised where they were yielded instead.
+ */
+export function nextNode<T>(execution: Execution<T>): IteratorResult<Node, T> {
+  let next = execution.next()
+  while (!next.done && next.value instanceof Promise) {
+    next.value.catch(() => undefined)
+    next = execution.throw(new Error('Natives can only wait for promises when run by an asynchronous interpreter'))
+  }
+  return next as IteratorResult<Node, T>
+}
+
 export type RuntimeValue = RuntimeObject | undefined
 
 export interface Natives { [name: string]: NativeFunction | Natives }
 export type NativeFunction = (this: Evaluation, self: RuntimeObject, ...args: RuntimeObject[]) => Execution<RuntimeValue | void>
+export type SendEvent = {
+  receiver: RuntimeObject
+  message: Name
+  args: List<RuntimeObject>
+  /** Method that will handle the message, or undefined if the receiver does not understand it. */
+  method?: Method
+}
+export type ReturnEvent = { receiver: RuntimeObject, method: Method, args: List<RuntimeObject>, value: RuntimeValue }
+export type InstantiateEvent = { instance: RuntimeObject }
+/** The context is the one that declares the assigned variable: an object for fields, a frame for locals. */
+export type AssignmentEvent = { node: Assignment, context: Context, name: Name, oldValue: RuntimeValue, newValue: RuntimeObject }
+export type ThrowEvent = { node: Node, exception: WollokException }
+export type CatchEvent = { handler: Catch, exception: WollokException }
+export type FrameEvent = { frame: Frame }
+/** The running execution yielded the node, which is about to be evaluated. */
+export type StepEvent = { node: Node }
+
+export type EvaluationEvents = {
+  send: SendEvent
+  return: ReturnEvent
+  instantiate: InstantiateEvent
+  assignment: AssignmentEvent
+  throw: ThrowEvent
+  catch: CatchEvent
+  framePush: FrameEvent
+  framePop: FrameEvent
+  step: StepEvent
+}
+
+export type EvaluationListener<Event> = (event: Event, evaluation: Evaluation) => void
+
+type EvaluationListeners = { [Event in keyof EvaluationEvents]: EvaluationListener<EvaluationEvents[Event]>[] }
+
+const copyListeners = (listeners?: EvaluationListeners): EvaluationListeners => ({
+  send: [...listeners?.send ?? []],
+  return: [...listeners?.return ?? []],
+  instantiate: [...listeners?.instantiate ?? []],
+  assignment: [...listeners?.assignment ?? []],
+  throw: [...listeners?.throw ?? []],
+  catch: [...listeners?.catch ?? []],
+  framePush: [...listeners?.framePush ?? []],
+  framePop: [...listeners?.framePop ?? []],
+  step: [...listeners?.step ?? []],
+})
 
 // ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
 // EXCEPTIONS
@@ -40,19 +101,57 @@ export class WollokReturn extends Error {
   private constructor() { super() }
 }
 
+export type WollokStackFrame = {
+  /** Description of the frame, as printed in the stack traces. */
+  description: string
+  /** Fully qualified name of the method (or of the test or program) that runs in the frame. */
+  fullyQualifiedName?: Name
+  /** Number of parameters of the method that runs in the frame. */
+  arity?: number
+  fileName?: string
+  /** Location of the node the frame was running. */
+  sourceMap?: SourceMap
+  /** Whether the frame runs user code, as opposed to code of the Wollok base library. */
+  isCustom: boolean
+}
+
+/** Stacks captured when exceptions are initialized, innermost frame first. Copies of the exceptions share them. */
+const capturedStacks = new WeakMap<RuntimeObject, List<WollokStackFrame>>()
+
+export const stackFrameLocation = ({ fileName, sourceMap }: WollokStackFrame): string => `${fileName ?? '--'}:${sourceMap?.start.line ?? '--'}`
+
 export class WollokException extends Error {
+  /** Frames of the stack where the exception was created, innermost first. */
+  get stackFrames(): List<WollokStackFrame> {
+    return capturedStacks.get(this.instance) ?? []
+  }
+
+  /** User code frames of the stack, followed by the ones of the exceptions that caused this one. */
   get wollokStack(): string {
     try {
-      const fullTrace: string = new Interpreter(this.evaluation).send('getStackTraceAsString', this.instance)!.innerString!
-      return fullTrace.slice(fullTrace.indexOf('\n') + 1).trimEnd()
+      const lines = stackTraceLines(this.stackFrames)
+      let cause = this.instance.get('cause')
+      while (cause && cause.innerValue !== null) {
+        const message = cause.get('message')
+        const description = message && message.innerValue !== null
+          ? `: ${message.innerString ?? new Interpreter(this.evaluation).do(function* () { return yield* this.withoutLimits(this.send(TO_STRING_METHOD, message)) })!.innerString}`
+          : ''
+        lines.push(`Caused by: ${cause.module.fullyQualifiedName}${description}`, ...stackTraceLines(capturedStacks.get(cause) ?? []))
+        cause = cause.get('cause')
+      }
+      return lines.join('\n')
     } catch (error) { return `Could not retrieve Wollok stack due to error: ${error instanceof Error ? error.stack : error}` }
   }
 
-  get message(): string {
+  /** Message of the exception, without the stack. */
+  get description(): string {
     const error: RuntimeObject = this.instance
     assertIsException(error)
-    const errorMessage = error.innerValue ? error.innerValue.message : error.get('message')?.innerString ?? ''
-    return `${errorMessage}\n${this.wollokStack}\n     ${WOLLOK_EXTRA_STACK_TRACE_HEADER}`
+    return error.innerValue ? error.innerValue.message : error.get('message')?.innerString ?? ''
+  }
+
+  get message(): string {
+    return `${this.description}\n${this.wollokStack}\n     ${WOLLOK_EXTRA_STACK_TRACE_HEADER}`
   }
 
   // TODO: Do we need to take this into consideration for Evaluation.copy()? This might be inside Exception objects
@@ -67,6 +166,25 @@ export class WollokException extends Error {
   }
 }
 
+const stackTraceLines = (frames: List<WollokStackFrame>): string[] =>
+  frames.filter(frame => frame.isCustom).map(frame => `\tat ${frame.description} [${stackFrameLocation(frame)}]`)
+
+/** Raised when an execution goes over one of the `EvaluationLimits`. It surfaces as an instance of the given Wollok exception. */
+export class ExecutionLimitError extends Error {
+  constructor(readonly exceptionModule: Name, message: string) {
+    super(message)
+    this.name = 'ExecutionLimitError'
+  }
+}
+
+/** Raised when the signal of an execution is aborted. It is not a Wollok exception, so programs can't catch it. */
+export class ExecutionAbortedError extends Error {
+  constructor() {
+    super('Execution aborted')
+    this.name = 'ExecutionAbortedError'
+  }
+}
+
 // ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
 // CONTEXTS
 // ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
@@ -84,8 +202,8 @@ export abstract class Context {
   get(local: Name): RuntimeValue {
     const found = this.locals.get(local) ?? this.parentContext?.get(local)
     if (!found || found instanceof RuntimeObject) return found
-    let lazy = found.next()
-    while (!lazy.done) lazy = found.next()
+    let lazy = nextNode(found)
+    while (!lazy.done) lazy = nextNode(found)
     this.set(local, lazy.value)
     return lazy.value
   }
@@ -145,11 +263,28 @@ export class Frame extends Context {
     )
   }
 
-  get sourceInfo(): string {
-    const target = this.node.is(Method) && this.node.name === CLOSURE_EVALUATE_METHOD
+  /** Node that locates the frame in the source code. Closures are located where they are evaluated. */
+  get sourceNode(): Node {
+    return this.node.is(Method) && this.node.name === CLOSURE_EVALUATE_METHOD
       ? this.currentNode.parent
       : this.currentNode
-    return target.sourceInfo
+  }
+
+  get sourceInfo(): string {
+    return this.sourceNode.sourceInfo
+  }
+
+  get stackFrame(): WollokStackFrame {
+    const runner = [this.node, ...this.node.ancestors].find((node): node is Method | Test | Program => node.is(Method) || node.is(Test) || node.is(Program))
+    const { sourceFileName, sourceMap } = this.sourceNode
+    return {
+      description: this.description,
+      fullyQualifiedName: runner?.is(Method) ? `${runner.parent.fullyQualifiedName}.${runner.name}` : (runner as Test | Program | undefined)?.fullyQualifiedName,
+      arity: runner?.is(Method) ? runner.parameters.length : undefined,
+      fileName: sourceFileName,
+      sourceMap,
+      isCustom: this.isCustom(),
+    }
   }
 
   protected baseCopy(contextCache: Map<Id, Context>): Frame {
@@ -206,11 +341,14 @@ export class RuntimeObject extends Context {
   }
 
   protected baseCopy(contextCache: Map<Id, Context>): RuntimeObject {
-    return new RuntimeObject(
+    const copy = new RuntimeObject(
       this.module,
       this.parentContext!.copy(contextCache),
       isArray(this.innerValue) ? this.innerValue.map(elem => elem.copy(contextCache)) : this.innerValue
     )
+    const stack = capturedStacks.get(this)
+    if (stack) capturedStacks.set(copy, stack)
+    return copy
   }
 
   protected assertIs(moduleFQN: Name, innerValue?: InnerValue): void {
@@ -299,11 +437,240 @@ export function assertIsNotNull(obj: RuntimeObject, message: string, variableNam
 // EVALUATION
 // ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
 
+/** Source of the random numbers used by the natives. Copies must go on producing the same numbers as the original. */
+export interface RandomSource {
+  /** Seed that reproduces the numbers of this source from the start, if it has one. */
+  readonly seed?: number
+  /** Returns a number in [0, 1), like `Math.random`. */
+  next(): number
+  copy(): RandomSource
+}
+
+/** Small and fast pseudo random generator (Mulberry32). Without an explicit seed, a random one is picked. */
+export class SeededRandom implements RandomSource {
+  readonly seed: number
+  protected state: number
+
+  constructor(seed: number = Math.floor(Math.random() * 2 ** 32)) {
+    this.seed = seed
+    this.state = seed | 0
+  }
+
+  next(): number {
+    let value = this.state = this.state + 0x6D2B79F5 | 0
+    value = Math.imul(value ^ value >>> 15, value | 1)
+    value ^= value + Math.imul(value ^ value >>> 7, value | 61)
+    return ((value ^ value >>> 14) >>> 0) / 2 ** 32
+  }
+
+  copy(): SeededRandom {
+    const copy = new SeededRandom(this.seed)
+    copy.state = this.state
+    return copy
+  }
+}
+
+/** Source of the current time for the natives. Copies must keep the time of the original. */
+export interface Clock {
+  /** Milliseconds elapsed since the UNIX epoch. */
+  now(): number
+  copy(): Clock
+}
+
+export class SystemClock implements Clock {
+  now(): number { return Date.now() }
+
+  copy(): SystemClock { return this }
+}
+
+/**
+ * Clock that only moves when told to, so time dependent code (like `calendar.today()`) can be tested.
+ *
+ * Game time is not read from the clock: it is the one last given to `game.flushEvents`, and natives like `game.say` take
+ * it from there so messages expire in the same time frame the driver renders with. Drivers that take the flushed time
+ * from this clock advance the game deterministically.
+ */
+export class VirtualClock implements Clock {
+  protected time: number
+
+  constructor(time: Date | number = 0) {
+    this.time = +time
+  }
+
+  now(): number { return this.time }
+
+  set(time: Date | number): void {
+    this.time = +time
+  }
+
+  advance(milliseconds: number): void {
+    this.time += milliseconds
+  }
+
+  copy(): VirtualClock { return new VirtualClock(this.time) }
+}
+
+/**
+ * Source of the lines read by `console.readLine` and `console.readInt`. Providers answer undefined once the input is
+ * over, and may answer a promise when the line is not available yet (like a prompt shown by an IDE).
+ */
+export interface InputProvider {
+  readLine(): string | undefined | Promise<string | undefined>
+  /** Releases whatever the provider holds while reading (like stream listeners). Called when each execution ends. */
+  close?(): void
+}
+
+/** Input that answers the given lines in order. More lines can be queued at any time, which is handy for tests. */
+export class QueueInput implements InputProvider {
+  protected readonly lines: string[]
+
+  constructor(lines: List<string> = []) {
+    this.lines = [...lines]
+  }
+
+  push(...lines: string[]): void {
+    this.lines.push(...lines)
+  }
+
+  readLine(): string | undefined {
+    return this.lines.shift()
+  }
+}
+
+/**
+ * Input that remembers the lines read from another one, so they are answered again after rewinding it (like when the
+ * execution history replays the steps that read them).
+ */
+export class RecordedInput implements InputProvider {
+  protected readonly source: InputProvider
+  protected readonly lines: ReturnType<InputProvider['readLine']>[] = []
+  protected position = 0
+
+  constructor(source: InputProvider) {
+    this.source = source
+  }
+
+  readLine(): string | undefined | Promise<string | undefined> {
+    if (this.position === this.lines.length) this.lines.push(this.source.readLine())
+    return this.lines[this.position++]
+  }
+
+  rewind(): void {
+    this.position = 0
+  }
+
+  close(): void {
+    this.source.close?.()
+  }
+}
+
+/**
+ * Input that reads the lines of a stream (stdin by default). The stream is only listened once the first line is read,
+ * and lines that did not arrive yet are answered as promises. Closing it stops listening until the next read, so an
+ * idle stream (like a TTY stdin) does not keep the process alive.
+ */
+export class StreamInput implements InputProvider {
+  protected readonly stream: NodeJS.ReadableStream
+  protected readonly lines: string[] = []
+  protected readonly pendingReads: ((line: string | undefined) => void)[] = []
+  protected buffer = ''
+  protected listening = false
+  protected ended = false
+  protected readonly onData = (chunk: Buffer | string): void => {
+    const lines = `${this.buffer}${chunk}`.split(/\r?\n/)
+    this.buffer = lines.pop()!
+    for (const line of lines) this.receive(line)
+  }
+  protected readonly onEnd = (): void => {
+    if (this.buffer) this.receive(this.buffer)
+    this.buffer = ''
+    this.ended = true
+    for (const resolve of this.pendingReads.splice(0)) resolve(undefined)
+  }
+
+  constructor(stream: NodeJS.ReadableStream = process.stdin) {
+    this.stream = stream
+  }
+
+  readLine(): string | undefined | Promise<string | undefined> {
+    this.listen()
+    if (this.lines.length) return this.lines.shift()
+    if (this.ended) return undefined
+    return new Promise(resolve => this.pendingReads.push(resolve))
+  }
+
+  protected listen(): void {
+    if (this.listening) return
+    this.listening = true
+    this.stream.on('data', this.onData)
+    this.stream.on('end', this.onEnd)
+    // Listening again does not resume a stream paused on close
+    this.stream.resume()
+  }
+
+  close(): void {
+    if (!this.listening) return
+    this.listening = false
+    this.stream.off('data', this.onData)
+    this.stream.off('end', this.onEnd)
+    // Others may still be reading the stream (like a REPL prompt on stdin)
+    if (!this.stream.listenerCount('data')) this.stream.pause()
+  }
+
+  protected receive(line: string): void {
+    const pendingRead = this.pendingReads.shift()
+    if (pendingRead) pendingRead(line)
+    else this.lines.push(line)
+  }
+}
+
+export type EvaluationOptions = {
+  /** Defaults to a generator with a random seed. */
+  random?: RandomSource
+  /** Defaults to the system clock. */
+  clock?: Clock
+  /** Defaults to an empty input. */
+  input?: InputProvider
+}
+
+export type EvaluationLimits = {
+  /** Maximum number of nodes each execution can evaluate. */
+  maxSteps?: number
+  /** Maximum wall-clock time, in milliseconds, of each execution. */
+  timeout?: number
+  /** Maximum number of frames in the frame stack. */
+  maxStackDepth?: number
+  /** Maximum number of live instances (objects reachable from the frame stack, literals included). */
+  maxInstances?: number
+}
+
 export class Evaluation {
   readonly natives: Map<Method, NativeFunction>
   protected readonly numberCache: Map<number, WeakRef<RuntimeObject>>
   protected readonly stringCache: Map<string, WeakRef<RuntimeObject>>
+  /** Where the program prints. Copies share it, so forks print where the original evaluation does. */
   console: Console = console
+  /** Lines read by the program. Copies share it, as it is usually backed by something outside the evaluation. */
+  input: InputProvider
+  /** Listeners of the events of the executions, by event. Copies keep the listeners registered at the time. */
+  protected readonly listeners: EvaluationListeners
+  /** While set, no events are emitted, like while the execution history silently replays steps that already ran. */
+  eventsSuspended = false
+  /** Exception about to be thrown while the execution yields the node that raises it (see `signalException`). */
+  raisingException?: WollokException
+  /** Limits executions must keep to. Going over them raises a Wollok exception (see `checkLimits`). */
+  limits: EvaluationLimits
+  /** Signal of the running execution. It is not copied, as it belongs to the execution rather than to its state. */
+  signal?: AbortSignal
+  /** Every random number of the natives comes from here, so runs can be reproduced by fixing its seed. */
+  random: RandomSource
+  /** Every native that depends on the current time reads it from here. */
+  clock: Clock
+  protected stepsTaken = 0
+  protected startTime = Date.now()
+  protected liveInstances = 0
+  protected instancesSinceCount = 0
+  protected limitsSuspended = false
 
   frameStack: Frame[]
 
@@ -312,8 +679,8 @@ export class Evaluation {
   get currentNode(): Node { return this.currentFrame.node }
   get environment(): Environment { return this.rootFrame.node as Environment }
 
-  static build(environment: Environment, natives: Natives): Evaluation {
-    const evaluation = new Evaluation(new Map(), [new Frame(environment)], new Map(), new Map())
+  static build(environment: Environment, natives: Natives, { random = new SeededRandom(), clock = new SystemClock(), input = new QueueInput() }: EvaluationOptions = {}): Evaluation {
+    const evaluation = new Evaluation(new Map(), [new Frame(environment)], new Map(), new Map(), random, clock, input)
 
     // Set natives
     environment.forEach(node => {
@@ -353,15 +720,20 @@ export class Evaluation {
     return evaluation
   }
 
-  protected constructor(natives: Map<Method, NativeFunction>, frameStack: Frame[], numberCache: Map<number, WeakRef<RuntimeObject>>, stringCache: Map<string, WeakRef<RuntimeObject>>) {
+  protected constructor(natives: Map<Method, NativeFunction>, frameStack: Frame[], numberCache: Map<number, WeakRef<RuntimeObject>>, stringCache: Map<string, WeakRef<RuntimeObject>>, random: RandomSource, clock: Clock, input: InputProvider, limits: EvaluationLimits = {}, listeners: EvaluationListeners = copyListeners()) {
     this.natives = natives
+    this.random = random
+    this.clock = clock
+    this.input = input
     this.frameStack = frameStack
     this.numberCache = numberCache
     this.stringCache = stringCache
+    this.limits = limits
+    this.listeners = listeners
   }
 
   copy(contextCache: Map<Id, Context> = new Map()): Evaluation {
-    return new Evaluation(
+    const copy = new Evaluation(
       this.natives,
       this.frameStack.map(frame => frame.copy(contextCache)),
       new Map([...this.numberCache.entries()].flatMap(([key, value]) => {
@@ -372,7 +744,26 @@ export class Evaluation {
         const instanceCopy = value.deref()?.copy(contextCache)
         return instanceCopy ? [[key, new WeakRef(instanceCopy)]] : []
       })),
+      this.random.copy(),
+      this.clock.copy(),
+      this.input,
+      { ...this.limits },
+      copyListeners(this.listeners),
     )
+    copy.console = this.console
+    return copy
+  }
+
+  /** Replaces the state of this evaluation with a copy of the state of the given one. */
+  restore(snapshot: Evaluation): void {
+    const copy = snapshot.copy()
+    this.frameStack = copy.frameStack
+    this.numberCache.clear()
+    copy.numberCache.forEach((value, key) => this.numberCache.set(key, value))
+    this.stringCache.clear()
+    copy.stringCache.forEach((value, key) => this.stringCache.set(key, value))
+    this.random = copy.random
+    this.clock = copy.clock
   }
 
   allInstances(): Set<RuntimeObject> {
@@ -393,6 +784,76 @@ export class Evaluation {
     return new Set(this.frameStack.flatMap(frame => contextInstances(frame)))
   }
 
+  /** Starts counting the steps and time of a new execution against the limits. */
+  restartLimits(): void {
+    this.stepsTaken = 0
+    this.startTime = Date.now()
+  }
+
+  /** Emits the step event for the given node, yielded by the running execution. */
+  step(node: Node): void {
+    if (this.listeners.step.length) this.emit('step', { node })
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+  // EVENTS
+  // ──────────────────────────────────────────────────────────────────────────────────────────────────────────────────
+
+  /** Registers a listener for the given event and returns a function that unregisters it. */
+  on<Event extends keyof EvaluationEvents>(event: Event, listener: EvaluationListener<EvaluationEvents[Event]>): () => void {
+    const listeners: EvaluationListener<EvaluationEvents[Event]>[] = this.listeners[event]
+    listeners.push(listener)
+    return () => {
+      const index = listeners.indexOf(listener)
+      if (index >= 0) listeners.splice(index, 1)
+    }
+  }
+
+  /** Unregisters the listener of the given event. Unlike the function answered by `on`, it works on copies too. */
+  off<Event extends keyof EvaluationEvents>(event: Event, listener: EvaluationListener<EvaluationEvents[Event]>): void {
+    const listeners: EvaluationListener<EvaluationEvents[Event]>[] = this.listeners[event]
+    const index = listeners.indexOf(listener)
+    if (index >= 0) listeners.splice(index, 1)
+  }
+
+  /** A message is about to be sent. */
+  onSend(listener: EvaluationListener<SendEvent>): () => void { return this.on('send', listener) }
+
+  /** A method finished without raising an exception. */
+  onReturn(listener: EvaluationListener<ReturnEvent>): () => void { return this.on('return', listener) }
+
+  /** A new object, list, set or exception was initialized. Numbers, strings and booleans are cached, so they are not reported. */
+  onInstantiate(listener: EvaluationListener<InstantiateEvent>): () => void { return this.on('instantiate', listener) }
+
+  onAssignment(listener: EvaluationListener<AssignmentEvent>): () => void { return this.on('assignment', listener) }
+
+  /** An exception is raised, either by a `throw` or by an error of the interpreter. */
+  onThrow(listener: EvaluationListener<ThrowEvent>): () => void { return this.on('throw', listener) }
+
+  /** An exception is about to be handled by a `catch` block. */
+  onCatch(listener: EvaluationListener<CatchEvent>): () => void { return this.on('catch', listener) }
+
+  onFramePush(listener: EvaluationListener<FrameEvent>): () => void { return this.on('framePush', listener) }
+
+  onFramePop(listener: EvaluationListener<FrameEvent>): () => void { return this.on('framePop', listener) }
+
+  /** A node is about to be evaluated. Nodes yielded while an exception is being raised are not steps. */
+  onStep(listener: EvaluationListener<StepEvent>): () => void { return this.on('step', listener) }
+
+  /** Callers check there are listeners before building the event, so unobserved executions don't pay for it. */
+  protected emit<Event extends keyof EvaluationEvents>(event: Event, payload: EvaluationEvents[Event]): void {
+    if (this.eventsSuspended) return
+    const listeners: EvaluationListener<EvaluationEvents[Event]>[] = this.listeners[event]
+    for (const listener of [...listeners]) listener(payload, this)
+  }
+
+  /** Records the current stack as the one of the given exception, leaving out the frame that initializes it. */
+  captureStack(exception: RuntimeObject): List<WollokStackFrame> {
+    const stack = this.frameStack.slice(1, -1).map(frame => frame.stackFrame).reverse()
+    capturedStacks.set(exception, stack)
+    return stack
+  }
+
   object(fullyQualifiedName: Name): RuntimeObject {
     const instance = this.rootFrame.get(fullyQualifiedName)
     if (!instance) throw new Error(`WKO not found: ${fullyQualifiedName}`)
@@ -406,9 +867,14 @@ export class Evaluation {
   exec(node: Expression, frame?: Frame): Execution<RuntimeObject>
   exec(node: Node, frame?: Frame): Execution<undefined>
   *exec(node: Node, frame?: Frame): Execution<RuntimeValue> {
-    if (frame) this.frameStack.push(frame)
+    if (frame) {
+      this.frameStack.push(frame)
+      if (this.listeners.framePush.length) this.emit('framePush', { frame })
+    }
     this.currentFrame.currentNode = node
     try {
+      this.checkSignal()
+      this.checkLimits()
       // TODO avoid casting
       switch (node.kind) {
         case 'Test': yield* this.execTest(node as Test); return
@@ -431,14 +897,103 @@ export class Evaluation {
         default: throw new Error(`Can't execute ${node.kind} node`)
       }
     } catch (error) {
-      if (error instanceof WollokException || error instanceof WollokReturn) throw error
-      const moduleFQN = error instanceof RangeError && error.message === 'Maximum call stack size exceeded'
-        ? 'wollok.lang.StackOverflowException'
-        : 'wollok.lang.EvaluationError'
-      const exceptionInstance = new WollokException(this, yield* this.error(moduleFQN, {}, error as Error))
-      throw exceptionInstance
+      if (error instanceof WollokException || error instanceof WollokReturn || error instanceof ExecutionAbortedError) throw error
+      const moduleFQN = error instanceof ExecutionLimitError ? error.exceptionModule
+        : error instanceof RangeError && error.message === 'Maximum call stack size exceeded' ? STACK_OVERFLOW_EXCEPTION_MODULE
+        : EVALUATION_ERROR_MODULE
+      const exceptionInstance = new WollokException(this, yield* this.withoutLimits(this.initializedError(moduleFQN, error as Error)))
+      throw yield* this.signalException(node, exceptionInstance)
+    }
+    finally {
+      if (frame) {
+        this.frameStack.pop()
+        if (this.listeners.framePop.length) this.emit('framePop', { frame })
+      }
+    }
+  }
+
+  /**
+   * Runs the given execution until the given signal is aborted, which is checked between the yielded nodes. From then on
+   * every node raises an `ExecutionAbortedError`, which goes through the `catch` and `then always` blocks of the program
+   * without running them, so the frames are popped as the execution unwinds.
+   */
+  *abortableBy<T>(signal: AbortSignal | undefined, execution: Execution<T>): Execution<T> {
+    if (!signal) return yield* execution
+    const previousSignal = this.signal
+    this.signal = signal
+    try {
+      this.checkSignal()
+      let next = execution.next()
+      while (!next.done) {
+        let sent: unknown
+        try {
+          sent = yield next.value
+        } catch (error) {
+          next = execution.throw(error)
+          continue
+        }
+        next = signal.aborted ? execution.throw(new ExecutionAbortedError()) : execution.next(sent)
+      }
+      return next.value
+    } finally {
+      this.signal = previousSignal
+    }
+  }
+
+  protected checkSignal(): void {
+    if (this.signal?.aborted) throw new ExecutionAbortedError()
+  }
+
+  /**
+   * Steps and time are only counted while the limits are set. Once they run out, every following node raises again,
+   * so a `catch` can't keep an exhausted execution going.
+   */
+  protected checkLimits(): void {
+    if (this.limitsSuspended) return
+    const { maxSteps, timeout, maxStackDepth } = this.limits
+    if (maxSteps !== undefined && ++this.stepsTaken > maxSteps)
+      throw new ExecutionLimitError(EVALUATION_ERROR_MODULE, `Execution exceeded the limit of ${maxSteps} steps`)
+    if (timeout !== undefined && Date.now() - this.startTime > timeout)
+      throw new ExecutionLimitError(EVALUATION_ERROR_MODULE, `Execution exceeded the timeout of ${timeout}ms`)
+    if (maxStackDepth !== undefined && this.frameStack.length > maxStackDepth)
+      throw new ExecutionLimitError(STACK_OVERFLOW_EXCEPTION_MODULE, `Execution exceeded the limit of ${maxStackDepth} stack frames`)
+  }
+
+  /** Counting the live instances walks the whole object graph, so it is only done when the estimate goes over the limit. */
+  protected checkInstanceLimit(maxInstances: number): void {
+    if (this.limitsSuspended || this.liveInstances + ++this.instancesSinceCount <= maxInstances) return
+    this.liveInstances = this.allInstances().size
+    this.instancesSinceCount = 1
+    if (this.liveInstances >= maxInstances)
+      throw new ExecutionLimitError(EVALUATION_ERROR_MODULE, `Execution exceeded the limit of ${maxInstances} live instances`)
+  }
+
+  /** Runs the given execution ignoring the limits, like building or describing the exception raised for going over them. */
+  *withoutLimits<T>(execution: Execution<T>): Execution<T> {
+    const suspended = this.limitsSuspended
+    this.limitsSuspended = true
+    try {
+      return yield* execution
+    } finally {
+      this.limitsSuspended = suspended
+    }
+  }
+
+  /**
+   * Runs the given execution against its own limits, like an expression evaluated by a debugger while the program is
+   * paused. The limits of the running execution, and what was counted against them, are restored afterwards.
+   */
+  *limitedBy<T>(limits: EvaluationLimits, execution: Execution<T>): Execution<T> {
+    const { limits: previousLimits, stepsTaken, startTime } = this
+    this.limits = limits
+    this.restartLimits()
+    try {
+      return yield* execution
+    } finally {
+      this.limits = previousLimits
+      this.stepsTaken = stepsTaken
+      this.startTime = startTime
     }
-    finally { if (frame) this.frameStack.pop() }
   }
 
   protected *execTest(node: Test): Execution<void> {
@@ -505,8 +1060,14 @@ export class Evaluation {
     yield node
     if (node.variable.target?.isConstant) throw new Error(`Can't assign the constant ${variableName}`)
     const target = node.variable.target
+    const name = targetName(target, node.variable.name)
+
+    if (this.listeners.assignment.length) {
+      const context = this.currentFrame.contextHierarchy().find(context => context.locals.has(name)) ?? this.currentFrame
+      this.emit('assignment', { node, context, name, oldValue: context.get(name), newValue: value })
+    }
 
-    this.currentFrame.set(targetName(target, node.variable.name), value, true)
+    this.currentFrame.set(name, value, true)
   }
 
   protected *execReturn(node: Return): Execution<RuntimeValue> {
@@ -650,6 +1211,7 @@ export class Evaluation {
       })
 
       if (handler) {
+        if (this.listeners.catch.length) this.emit('catch', { handler, exception: error })
         result = yield* this.exec(handler.body, new Frame(handler, this.currentFrame, { [handler.parameter.name]: error.instance }))
       } else throw error
 
@@ -666,7 +1228,22 @@ export class Evaluation {
 
     yield node
 
-    throw new WollokException(this, exception)
+    throw yield* this.signalException(node, new WollokException(this, exception))
+  }
+
+  /**
+   * Yields the node that raises the given exception once more, before it is thrown, so drivers can pause with the stack
+   * still intact. Drivers should not treat this yield as a regular step.
+   */
+  protected *signalException(node: Node, exception: WollokException): Execution<WollokException> {
+    if (this.listeners.throw.length) this.emit('throw', { node, exception })
+    this.raisingException = exception
+    try {
+      yield node
+    } finally {
+      this.raisingException = undefined
+    }
+    return exception
   }
 
   protected *execSingleton(node: Singleton): Execution<RuntimeValue> {
@@ -677,6 +1254,7 @@ export class Evaluation {
   *send(message: Name, receiver: RuntimeObject, ...args: RuntimeObject[]): Execution<RuntimeValue> {
     if (!receiver) throw new RangeError(`Message: ${message}: receiver produces no value. Cannot send message ${message}`)
     const method = receiver.module.lookupMethod(message, args.length)
+    if (this.listeners.send.length) this.emit('send', { receiver, message, args, method })
     if (!method) return yield* this.send('messageNotUnderstood', receiver, yield* this.reify(message as string), yield* this.list(...args))
 
     return yield* this.invoke(method, receiver, ...args)
@@ -685,10 +1263,12 @@ export class Evaluation {
   *invoke(method: Method, receiver: RuntimeObject, ...args: RuntimeObject[]): Execution<RuntimeValue> {
     const locals = yield* this.localsFor(method, args)
 
-    return yield* this.exec(method, new Frame(method, receiver, locals))
+    const value = yield* this.exec(method, new Frame(method, receiver, locals))
+    if (this.listeners.return.length) this.emit('return', { receiver, method, args, value })
+    return value
   }
 
-  protected *localsFor(method: Method, args: RuntimeObject[]): Generator<Node, Record<string, RuntimeObject>> {
+  protected *localsFor(method: Method, args: RuntimeObject[]): Execution<Record<string, RuntimeObject>> {
     const locals: Record<string, RuntimeObject> = {}
     for (let index = 0; index < method.parameters.length; index++) {
       const { name, isVarArg } = method.parameters[index]
@@ -747,13 +1327,16 @@ export class Evaluation {
   }
 
   *list(...value: RuntimeObject[]): Execution<RuntimeObject> {
-    return new RuntimeObject(this.environment.getNodeByFQN(LIST_MODULE), this.rootFrame, value)
+    const instance = new RuntimeObject(this.environment.getNodeByFQN(LIST_MODULE), this.rootFrame, value)
+    if (this.listeners.instantiate.length) this.emit('instantiate', { instance })
+    return instance
   }
 
   *set(...value: RuntimeObject[]): Execution<RuntimeObject> {
     const result = new RuntimeObject(this.environment.getNodeByFQN(SET_MODULE), this.rootFrame, [])
     for (const elem of value)
       yield* this.send('add', result, elem)
+    if (this.listeners.instantiate.length) this.emit('instantiate', { instance: result })
     return result
   }
 
@@ -761,13 +1344,23 @@ export class Evaluation {
     const module = typeof moduleOrFQN === 'string' ? this.environment.getNodeByFQN<Module>(moduleOrFQN) : moduleOrFQN
     const instance = new RuntimeObject(module, this.currentFrame, error)
     yield* this.init(instance, locals)
+    if (this.listeners.instantiate.length) this.emit('instantiate', { instance })
+    return instance
+  }
+
+  /** Error whose fields are initialized right away, since initializing them later would fail if the limits ran out. */
+  protected *initializedError(moduleFQN: Name, error: Error): Execution<RuntimeObject> {
+    const instance = yield* this.error(moduleFQN, {}, error)
+    for (const field of instance.module.allFields) instance.get(field.name)
     return instance
   }
 
   *instantiate(moduleOrFQN: Module | Name, locals?: Record<Name, RuntimeValue | Execution<RuntimeObject>>): Execution<RuntimeObject> {
     const module = typeof moduleOrFQN === 'string' ? this.environment.getNodeByFQN<Module>(moduleOrFQN) : moduleOrFQN
+    if (this.limits.maxInstances !== undefined) this.checkInstanceLimit(this.limits.maxInstances)
     const instance = new RuntimeObject(module, module.is(Singleton) && !module.name ? this.currentFrame : this.rootFrame)
     yield* this.init(instance, locals)
+    if (this.listeners.instantiate.length) this.emit('instantiate', { instance })
     return instance
   }
 
@@ -0,0 +1,120 @@
+import { List } from '../extensions'
+import { Name } from '../model'
+import { getStackTraceSanitized } from './interpreter'
+import { TestResult, TestRunResult } from './testRunner'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// COMMON
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+type TestSuite = { path: List<Name>, results: List<TestResult> }
+
+const unquote = (name: Name): Name => name.replace(/^"(.*)"$/s, '$1')
+
+const suiteName = (path: List<Name>): Name => path.map(unquote).join('.')
+
+const testSuites = (results: List<TestResult>): List<TestSuite> => results.reduce<TestSuite[]>((suites, result) => {
+  const key = suiteName(result.path)
+  const suite = suites.find(({ path }) => suiteName(path) === key)
+  if (suite) suite.results = [...suite.results, result]
+  else suites.push({ path: result.path, results: [result] })
+  return suites
+}, [])
+
+const failureMessage = (error?: Error): string => error?.message.split('\n')[0] ?? ''
+
+const failureStack = (error?: Error): List<string> => error ? getStackTraceSanitized(error) : []
+
+const seconds = (milliseconds: number): string => (milliseconds / 1000).toFixed(3)
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// JUNIT
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const escapeXML = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+
+const xmlAttributes = (attributes: Record<string, string | number | undefined>): string =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXML(`${value}`)}"`)
+    .join('')
+
+const junitTestCase = (result: TestResult): List<string> => {
+  const attributes = xmlAttributes({
+    name: unquote(result.test.name),
+    classname: suiteName(result.path),
+    file: result.fileName,
+    line: result.sourceMap?.start.line,
+    time: seconds(result.duration),
+  })
+  if (result.status === 'passed') return [`    <testcase${attributes}/>`]
+
+  const tag = result.status === 'failed' ? 'failure' : 'error'
+  return [
+    `    <testcase${attributes}>`,
+    `      <${tag}${xmlAttributes({ message: failureMessage(result.error), type: result.error?.name })}>${escapeXML(failureStack(result.error).join('\n'))}</${tag}>`,
+    '    </testcase>',
+  ]
+}
+
+const junitTestSuite = ({ path, results }: TestSuite): List<string> => [
+  `  <testsuite${xmlAttributes({
+    name: suiteName(path),
+    tests: results.length,
+    failures: results.filter(result => result.status === 'failed').length,
+    errors: results.filter(result => result.status === 'errored').length,
+    time: seconds(results.reduce((total, result) => total + result.duration, 0)),
+    file: results[0].fileName,
+  })}>`,
+  ...results.flatMap(junitTestCase),
+  '  </testsuite>',
+]
+
+/**
+ * Renders the results of a test run as a JUnit XML report, with a test suite for each describe (or package, for the
+ * tests declared outside of any describe) and a test case for each test.
+ */
+export const toJUnitXML = ({ results, failed, errored, duration }: TestRunResult): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<testsuites${xmlAttributes({ tests: results.length, failures: failed, errors: errored, time: seconds(duration) })}>`,
+  ...testSuites(results).flatMap(junitTestSuite),
+  '</testsuites>',
+].join('\n')
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TAP
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const tapDiagnostics = (result: TestResult): List<string> => result.status === 'passed' ? [] : [
+  '  ---',
+  `  message: ${JSON.stringify(failureMessage(result.error))}`,
+  `  severity: ${result.status === 'failed' ? 'fail' : 'error'}`,
+  `  at: ${JSON.stringify(result.test.sourceInfo)}`,
+  '  stack: |-',
+  ...failureStack(result.error).map(line => `    ${line}`),
+  '  ...',
+]
+
+/**
+ * Renders the results of a test run as a TAP 13 report. Each suite is announced by a comment line and each test
+ * description is prefixed by the name of its suite.
+ */
+export const toTAP = ({ results }: TestRunResult): string => {
+  let testNumber = 0
+  return [
+    'TAP version 13',
+    `1..${results.length}`,
+    ...testSuites(results).flatMap(({ path, results }) => [
+      `# ${suiteName(path)}`,
+      ...results.flatMap(result => [
+        `${result.status === 'passed' ? 'ok' : 'not ok'} ${++testNumber} - ${suiteName(path)} > ${unquote(result.test.name).replace(/#/g, '\\#')}`,
+        ...tapDiagnostics(result),
+      ]),
+    ]),
+  ].join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { ASSERTION_EXCEPTION_MODULE } from '../constants'
+import { List } from '../extensions'
+import { Describe, Environment, Module, Name, Node, Package, SourceMap, Test } from '../model'
+import WRENatives from '../wre/wre.natives'
+import { CoverageCollector } from './coverage'
+import { Interpreter } from './interpreter'
+import { Evaluation, ExecutionAbortedError, Natives, SeededRandom, WollokException, WollokStackFrame } from './runtimeModel'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type TestStatus = 'passed' | 'failed' | 'errored'
+
+export type TestResult = {
+  test: Test
+  /** Names of the packages and describes that contain the test, outermost first. */
+  path: List<Name>
+  status: TestStatus
+  /** Milliseconds spent running the test. */
+  duration: number
+  error?: Error
+  wollokStack?: string
+  stackFrames?: List<WollokStackFrame>
+  fileName?: string
+  sourceMap?: SourceMap
+}
+
+export type TestRunResult = {
+  results: List<TestResult>
+  passed: number
+  failed: number
+  errored: number
+  duration: number
+  /** Seed of the random numbers of the run, to reproduce it through the `seed` option. */
+  seed?: number
+  /** Whether the run was stopped through the `signal` option. The test it interrupted and the following ones are not reported. */
+  aborted: boolean
+}
+
+export type TestRunOptions = {
+  /** Runs only the tests whose full name contains the given text or that satisfy the given predicate. */
+  filter?: string | ((test: Test, path: List<Name>) => boolean)
+  /** Whether tests marked as `only` should prevent their siblings from running. Defaults to true. */
+  only?: boolean
+  natives?: Natives
+  /** Collector to record the nodes executed by the tests. */
+  coverage?: CoverageCollector
+  /** Seed for the random numbers. Every test starts from the same random state, regardless of which ones run. */
+  seed?: number
+  /** Stops the run, aborting the running test. */
+  signal?: AbortSignal
+}
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// RUNNER
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export const testFullName = (test: Test, path: List<Name>): string => [...path, test.name].join(' ')
+
+const collectTests = (nodes: List<Node>, path: List<Name>, honourOnly: boolean): List<[Test, List<Name>]> => {
+  const onlyTest = honourOnly ? nodes.find((node): node is Test => node.is(Test) && node.isOnly) : undefined
+
+  return nodes.flatMap((node): List<[Test, List<Name>]> => {
+    if (node.is(Package) || node.is(Describe)) return collectTests(node.members, [...path, node.name], honourOnly)
+    if (node.is(Test) && (!onlyTest || node === onlyTest)) return [[node, path]]
+    return []
+  })
+}
+
+const statusFor = (error: unknown, assertionException: Module | undefined): TestStatus =>
+  error instanceof WollokException && assertionException && error.instance.module.inherits(assertionException)
+    ? 'failed'
+    : 'errored'
+
+/**
+ * Runs the tests of the given environment, each one on a fork of the same interpreter, and reports the outcome of
+ * every one of them instead of stopping on the first failure.
+ */
+export function runTests(environment: Environment, { filter, only = true, natives = WRENatives, coverage, seed, signal }: TestRunOptions = {}): TestRunResult {
+  const matchesFilter = typeof filter === 'string'
+    ? (test: Test, path: List<Name>) => testFullName(test, path).includes(filter)
+    : filter ?? (() => true)
+  const assertionException = environment.getNodeOrUndefinedByFQN<Module>(ASSERTION_EXCEPTION_MODULE)
+  const interpreter = new Interpreter(Evaluation.build(environment, natives, { random: new SeededRandom(seed) }), signal)
+  coverage?.attach(interpreter.evaluation)
+
+  const runTest = (test: Test, path: List<Name>): TestResult => {
+    const location = { fileName: test.sourceFileName, sourceMap: test.sourceMap }
+    const start = Date.now()
+    try {
+      interpreter.fork().exec(test)
+      return { test, path, status: 'passed', duration: Date.now() - start, ...location }
+    } catch (error) {
+      if (error instanceof ExecutionAbortedError) throw error
+      return {
+        test,
+        path,
+        status: statusFor(error, assertionException),
+        duration: Date.now() - start,
+        error: error instanceof Error ? error : new Error(`${error}`),
+        wollokStack: error instanceof WollokException ? error.wollokStack : undefined,
+        stackFrames: error instanceof WollokException ? error.stackFrames : undefined,
+        ...location,
+      }
+    }
+  }
+
+  const results: TestResult[] = []
+  try {
+    for (const [test, path] of collectTests(environment.members, [], only).filter(([test, path]) => matchesFilter(test, path)))
+      results.push(runTest(test, path))
+  } catch (error) {
+    if (!(error instanceof ExecutionAbortedError)) throw error
+  }
+
+  const count = (status: TestStatus) => results.filter(result => result.status === status).length
+
+  return {
+    results,
+    passed: count('passed'),
+    failed: count('failed'),
+    errored: count('errored'),
+    duration: results.reduce((total, result) => total + result.duration, 0),
+    seed: interpreter.evaluation.random.seed,
+    aborted: !!signal?.aborted,
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { v4 as uuid } from 'uuid'
+import { v4 as uuid, v5 as uuidFrom } from 'uuid'
+import { getCache } from './decorators'
 import { divideOn, is, List } from './extensions'
 import { BaseProblem, Entity, Environment, Field, Id, Import, Level, Module, Name, Node, Package, Parameter, ParameterizedType, Reference, Scope, Sentence, SourceMap, Variable } from './model'
 const { assign } = Object
@@ -76,18 +77,26 @@ export class LocalScope implements Scope {
     }
   }
 
+  unregister(...nodes: Node[]): void {
+    for (const [name, node] of this.contributions)
+      if (nodes.includes(node)) this.contributions.delete(name)
+  }
+
   include(...others: Scope[]): void { this.includedScopes.push(...others) }
 
   localContributions(): [Name, Node][] { return [...this.contributions.entries()] }
 
+  /** Contributions of the included scopes, like the entities of the imported packages. */
+  includedContributions(): [Name, Node][] { return this.includedScopes.flatMap(scope => scope.localContributions()) }
+
   localEntities(): Node[] { return [...this.contributions.values()]}
 }
 
 export const scopeContribution = (contributor: Node): List<[Name, Node]> =>
   canBeReferenced(contributor) && contributor.name ? [[contributor.name, contributor]] : []
 
-export const assignScopes = (root: Node): void => {
-  root.forEach((node, parent) => {
+export const assignScopes = (...roots: Node[]): void => {
+  for (const root of roots) root.forEach((node, parent) => {
     const containerScope = node.is(Import) || node.is(Reference) && parent!.is(ParameterizedType)
       ? parent?.parent.scope
       : parent?.scope
@@ -95,10 +104,10 @@ export const assignScopes = (root: Node): void => {
     parent?.scope?.register(...scopeContribution(node))
   })
 
-  root.forEach((node, _parent) => {
+  for (const root of roots) root.forEach((node, _parent) => {
     if (node.is(Environment)) {
       for (const globalName of GLOBAL_PACKAGES) {
-        const globalPackage = root.scope.resolve<Package>(globalName)
+        const globalPackage = node.scope.resolve<Package>(globalName)
         if (globalPackage) node.scope.register(...globalPackage.members.flatMap(scopeContribution))
       }
     }
@@ -117,7 +126,7 @@ export const assignScopes = (root: Node): void => {
     }
   })
 
-  root.forEach((node, _parent) => {
+  for (const root of roots) root.forEach((node, _parent) => {
     if (node.is(Module)) {
       node.scope.include(...node.hierarchy.slice(1).map(supertype => supertype.scope))
     }
@@ -130,12 +139,43 @@ export const canBeReferenced = (node: Node): node is Entity | Field | Parameter
 // LINKER
 // ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
 
-export default (newPackages: List<Package>, baseEnvironment?: Environment): Environment => {
-  const environment = new Environment({
+export type LinkOptions = {
+  /**
+   * When set, node ids are derived from the position of each node in the tree (file, kind, name and index among its
+   * homonymous siblings) instead of being random, so the same sources always produce the same ids.
+   */
+  deterministicIds?: boolean
+}
+
+const NODE_ID_NAMESPACE = '5b1c3c9e-7d0a-4f6e-9a43-2f8e1b6d0c57'
+
+const stepKey = (node: Node, siblings: List<Node>): string => {
+  const nameOf = (sibling: Node) => (sibling as { name?: Name }).name ?? ''
+  const fileOf = (sibling: Node) => sibling.is(Package) && sibling.fileName ? `(${sibling.fileName})` : ''
+  const index = siblings.filter(sibling => sibling.kind === node.kind && nameOf(sibling) === nameOf(node) && fileOf(sibling) === fileOf(node)).indexOf(node)
+  return `${node.kind}:${nameOf(node)}${fileOf(node)}#${index}`
+}
+
+const keyOf = (node: Node): string => node.is(Environment) ? stepKey(node, [node]) : `${keyOf(node.parent)}/${stepKey(node, node.parent.children)}`
+
+const idGenerator = (root: Node, rootKey: string, { deterministicIds }: LinkOptions): (node: Node) => Id => {
+  if (!deterministicIds) return () => uuid()
+
+  const keys = new Map<Node, string>([[root, rootKey]])
+  root.forEach((node, parent) => {
+    if (parent) keys.set(node, `${keys.get(parent)}/${stepKey(node, parent.children)}`)
+  })
+  return node => uuidFrom(keys.get(node)!, NODE_ID_NAMESPACE)
+}
+
+export default (newPackages: List<Package>, baseEnvironment?: Environment, options: LinkOptions = {}): Environment => {
+  const unlinked = new Environment({
     id: uuid(),
     scope: undefined,
     members: newPackages.reduce(mergePackage, baseEnvironment?.members ?? []) as List<Package>,
-  }).transform(node => node.copy({ id: uuid() }))
+  })
+  const idFor = idGenerator(unlinked, keyOf(unlinked), options)
+  const environment = unlinked.transform(node => node.copy({ id: idFor(node) }))
 
   const nodeCache = new Map<Id, Node>()
   environment.forEach((node, parent) => {
@@ -165,4 +205,144 @@ export function linkSentenceInNode<S extends Sentence>(newSentence: S, context:
   })
 
   assignScopes(newSentence)
+}
+
+/** Removes a sentence linked with `linkSentenceInNode` from the environment, once it is not going to be evaluated again. */
+export function unlinkSentence(sentence: Sentence): void {
+  const _nodeCache = sentence.environment.nodeCache as Map<Id, Node>
+  sentence.forEach(node => _nodeCache.delete(node.id))
+}
+
+const fileUnits = (node: Node): List<Package> =>
+  node.is(Package) && (node.fileName !== undefined || !node.descendants.some(child => child.is(Package) && child.fileName !== undefined))
+    ? [node]
+    : node.children.filter(is(Package)).flatMap(fileUnits)
+
+const packagesIn = (container: Environment | Package): List<Package> => (container.members as List<Entity>).filter(is(Package))
+
+const cachedTarget = (reference: Reference<Node>): [boolean, Node | undefined] => {
+  const cache = getCache(reference)
+  return [cache.has('target()'), cache.get('target()')]
+}
+
+/**
+ * Replaces the package parsed from the given file in an already linked environment (or adds it, if the file was not
+ * there before). Instead of rebuilding the whole environment, only the scopes and caches of the new package and of
+ * the packages that depend on the replaced one (through imports, references or inheritance) are recomputed.
+ * The options should match the ones the environment was linked with.
+ */
+export function relink(environment: Environment, fileName: string, newPackage: Package, options: LinkOptions = {}): Package {
+  let container: Environment | Package = environment
+  let incoming: Package = newPackage
+  let existing: Package | undefined
+  while (incoming.fileName !== fileName) {
+    const next: Package | undefined = incoming.members.find(is(Package))
+    if (!next) throw new Error(`Package ${newPackage.name} was not parsed from ${fileName}`)
+    const directory: Package | undefined = packagesIn(container).find(member => member.name === incoming.name && member.fileName === undefined)
+    if (!directory) break
+    container = directory
+    incoming = next
+  }
+  if (incoming.fileName === fileName)
+    existing = packagesIn(container).find(member => member.fileName === fileName)
+
+  const linked = replaceMember(environment, container, existing, incoming, options)
+  if (existing?.isGlobalPackage) environment.scope.unregister(...existing.members)
+
+  const filePackage = linked.fileName === fileName ? linked : linked.descendants.find((node): node is Package => node.is(Package) && node.fileName === fileName)!
+  const fileFQN = filePackage.fullyQualifiedName
+  relinkDependents(environment, container, linked, existing, unit => unit.descendants.some(node => {
+    if (!node.is(Import)) return false
+    const { name } = node.entity
+    return name === fileFQN || name.startsWith(`${fileFQN}.`) || fileFQN.startsWith(`${name}.`)
+  }))
+  if (filePackage.isGlobalPackage) environment.scope.register(...filePackage.members.flatMap(scopeContribution))
+
+  return filePackage
+}
+
+/**
+ * Like `relink`, but replaces the member of an already linked package with the same name as the given entity (or adds
+ * it, if there is none), like the definitions of the REPL do. The other members keep their nodes, and only the ones
+ * that depend on the replaced entity are linked again.
+ */
+export function relinkEntity<E extends Entity>(environment: Environment, container: Package, newEntity: E, options: LinkOptions = {}): E {
+  const existing = container.members.find(member => member.name === newEntity.name)
+  const linked = replaceMember(environment, container, existing, newEntity, options)
+  relinkDependents(environment, container, linked, existing, () => false)
+  return linked
+}
+
+/**
+ * Undoes a `relinkEntity`, putting back the member the linked entity replaced (the very same node, so the runtime
+ * objects built from it keep working) or just removing the entity, if it replaced none.
+ */
+export function restoreEntity(environment: Environment, container: Package, linked: Entity, previous?: Entity): void {
+  swapMember(environment, container, linked, previous)
+  relinkDependents(environment, container, previous, linked, () => false)
+}
+
+/** Links a copy of the incoming node in place of the existing member of the container (or after its members). */
+const replaceMember = <N extends Entity>(environment: Environment, container: Environment | Package, existing: Entity | undefined, incoming: N, options: LinkOptions): N => {
+  const members = existing
+    ? container.members.map(member => member === existing ? incoming : member)
+    : [...container.members, incoming]
+  const idFor = idGenerator(incoming, `${keyOf(container)}/${stepKey(incoming, members)}`, options)
+  const linked = incoming.transform(node => node.copy({ id: idFor(node) }))
+  linked.forEach((node, parent) => {
+    node.environment = environment
+    node.parent = parent ?? container
+  })
+
+  swapMember(environment, container, existing, linked)
+  return linked
+}
+
+/** Puts the linked node in place of the existing member of the container, or adds or removes it if one is missing. */
+const swapMember = (environment: Environment, container: Environment | Package, existing: Entity | undefined, linked: Entity | undefined): void => {
+  const members: List<Entity> = existing
+    ? (container.members as List<Entity>).flatMap(member => member !== existing ? [member] : linked ? [linked] : [])
+    : [...container.members, ...linked ? [linked] : []]
+  assign(container, { members })
+  for (const node of [container, ...container.ancestors]) getCache(node).clear()
+
+  const nodeCache = environment.nodeCache as Map<Id, Node>
+  existing?.forEach(node => nodeCache.delete(node.id))
+  linked?.forEach(node => nodeCache.set(node.id, node))
+
+  if (existing) container.scope.unregister(existing)
+}
+
+/**
+ * Recomputes the scopes of the new node and clears the caches of the units that depend on the node it replaced, either
+ * because the given condition holds for them or because they reference it. Units that contain the container are split
+ * into their other members, so the scope of the container is kept.
+ */
+const relinkDependents = (environment: Environment, container: Environment | Package, linked: Node | undefined, existing: Node | undefined, dependsOn: (unit: Node) => boolean): void => {
+  const replaced = new Set<Node>(existing ? [existing, ...existing.descendants] : [])
+  const affected = new Set(replaced)
+  const dependents: Node[] = []
+  const units = fileUnits(environment)
+    .filter(unit => unit !== linked && !linked?.descendants.includes(unit))
+    .flatMap((unit): List<Node> => unit === container || unit.descendants.includes(container) ? unit.children.filter(child => child !== linked) : [unit])
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const unit of units) {
+      if (dependents.includes(unit)) continue
+      const dependsOnAffected = dependsOn(unit) || unit.descendants.some(node => {
+        if (!node.is(Reference)) return false
+        const [resolved, target] = cachedTarget(node)
+        return resolved && (!target || affected.has(target) && (replaced.has(target) || node.parent.is(ParameterizedType)))
+      })
+      if (dependsOnAffected) {
+        dependents.push(unit)
+        unit.forEach(node => affected.add(node))
+        changed = true
+      }
+    }
+  }
+
+  for (const unit of dependents) unit.forEach(node => getCache(node).clear())
+  assignScopes(...linked ? [linked] : [], ...dependents)
 }
\ No newline at end of file
@@ -15,7 +15,9 @@ export interface Scope {
   resolve<N extends Node>(qualifiedName: Name, allowLookup?: boolean): N | undefined
   include(...others: Scope[]): void
   register(...contributions: [Name, Node][]): void
+  unregister(...nodes: Node[]): void
   localContributions(): [Name, Node][]
+  includedContributions(): [Name, Node][]
   localEntities(): Node[]
 }
 
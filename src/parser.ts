@@ -2,7 +2,7 @@ import { log } from 'console'
 import Parsimmon, { alt as alt_parser, any, Index, index, lazy, makeSuccess, newline, notFollowedBy, of, Parser, regex, seq, seqObj, string, whitespace } from 'parsimmon'
 import unraw from 'unraw'
 import { ASSIGNATION_OPERATORS, INFIX_OPERATORS, KEYWORDS, LIST_MODULE, PREFIX_OPERATORS, SET_MODULE } from './constants'
-import { discriminate, hasWhitespace, is, List, mapObject } from './extensions'
+import { discriminate, hasWhitespace, is, last, List, mapObject } from './extensions'
 import { Annotation, Assignment as AssignmentNode, BaseProblem, Body as BodyNode, Catch as CatchNode, Class as ClassNode, Closure as ClosureNode, Describe as DescribeNode, Entity as EntityNode, Expression as ExpressionNode, Field as FieldNode, If as IfNode, Import as ImportNode, Level, Literal as LiteralNode, LiteralValue, Method as MethodNode, Mixin as MixinNode, Name, NamedArgument as NamedArgumentNode, New as NewNode, Node, Package as PackageNode, Parameter as ParameterNode, ParameterizedType as ParameterizedTypeNode, Program as ProgramNode, Reference as ReferenceNode, Return as ReturnNode, Self as SelfNode, Send as SendNode, Sentence as SentenceNode, Singleton as SingletonNode, SourceIndex, SourceMap, Super as SuperNode, Test as TestNode, Throw as ThrowNode, Try as TryNode, Variable as VariableNode } from './model'
 
 // TODO: Use description in lazy() for better errors
@@ -178,11 +178,15 @@ export const File = (fileName: string): Parser<PackageNode> => lazy(() =>
     fileName: of(fileName),
     name: of(fileName.split('.')[0].replaceAll('/', '.')),
     imports: Import.sepBy(_).skip(_),
-    members: Entity.or(alt(annotation, comment('start'))).or(entityError).sepBy(_),
+    members: fileMembers,
   }).skip(_)
     .map(payload => new PackageNode(recover(payload)))
 )
 
+const fileMembers: Parser<List<EntityNode | Annotation | ParseError>> = lazy(() =>
+  Entity.or(alt(annotation, comment('start'))).or(entityError).sepBy(_)
+)
+
 export const Import: Parser<ImportNode> = node(ImportNode)(() =>
   key(KEYWORDS.IMPORT).then(obj({
     entity: FullyQualifiedReference,
@@ -588,4 +592,108 @@ const Closure: Parser<SingletonNode> = lazy(() => {
       }))
     )
   )
-})
\ No newline at end of file
+})
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// INCREMENTAL PARSING
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type TextEdit = {
+  /** Offsets over the text resulting from applying all the previous edits */
+  range: { start: number, end: number }
+  text: string
+}
+
+export const applyTextEdits = (content: string, edits: List<TextEdit>): string =>
+  edits.reduce((current, { range, text }) => current.slice(0, range.start) + text + current.slice(range.end), content)
+
+const indexAt = (input: string, offset: number): SourceIndex => {
+  const lines = input.slice(0, offset).split('\n')
+  return new SourceIndex({ offset, line: lines.length, column: last(lines)!.length + 1 })
+}
+
+const shiftSourceMap = (sourceMap: SourceMap, shift: (index: SourceIndex) => SourceIndex): SourceMap =>
+  new SourceMap({ start: shift(sourceMap.start), end: shift(sourceMap.end) })
+
+const shiftNode = <N extends Node>(target: N, shift: (index: SourceIndex) => SourceIndex): N =>
+  target.transform(child => child.copy({
+    ...child.sourceMap && { sourceMap: shiftSourceMap(child.sourceMap, shift) },
+    ...child.problems && {
+      problems: child.problems.map(problem =>
+        problem instanceof ParseError ? new ParseError(problem.code, shiftSourceMap(problem.sourceMap, shift)) : problem
+      ),
+    },
+  }))
+
+const filePackageOf = (pckg: PackageNode): PackageNode | undefined =>
+  pckg.fileName !== undefined ? pckg : pckg.members.length === 1 && pckg.members[0].is(PackageNode) ? filePackageOf(pckg.members[0]) : undefined
+
+const replaceFilePackage = (pckg: PackageNode, filePackage: PackageNode): PackageNode =>
+  pckg.fileName !== undefined ? filePackage : pckg.copy({ members: [replaceFilePackage(pckg.members[0] as PackageNode, filePackage)] })
+
+/**
+ * Updates a file package previously obtained with the File parser, given the content it was parsed from and the edits
+ * performed on it. Only the top-level entities touched by the edits are parsed again: the ones before them are reused
+ * as they are and the ones after them are reused with their source maps shifted. Whenever the affected region can't be
+ * safely isolated (edits on imports, comments between entities, recovered parse errors, etc.) the whole file is parsed.
+ */
+export const reparseFile = (previous: PackageNode, previousContent: string, edits: List<TextEdit>): PackageNode => {
+  const content = applyTextEdits(previousContent, edits)
+  if (content === previousContent) return previous
+
+  const filePackage = filePackageOf(previous)
+  if (!filePackage) throw new Error(`Can't reparse package ${previous.name}: it was not parsed from a file`)
+
+  const fullParse = () => File(filePackage.fileName!).tryParse(content)
+
+  const { imports, members } = filePackage
+  if (filePackage.problems?.length || members.some(member => !member.sourceMap)) return fullParse()
+
+  const maxCommonLength = Math.min(previousContent.length, content.length)
+  let prefix = 0
+  while (prefix < maxCommonLength && previousContent[prefix] === content[prefix]) prefix++
+  let suffix = 0
+  while (suffix < maxCommonLength - prefix && previousContent[previousContent.length - 1 - suffix] === content[content.length - 1 - suffix]) suffix++
+
+  const changeStart = prefix
+  const changeEnd = previousContent.length - suffix
+  const delta = content.length - previousContent.length
+
+  // The gap at position i is the text between the (i-1)th and the ith members
+  const importsEnd = imports.length ? last(imports)!.sourceMap!.end.offset : 0
+  const gapStart = (i: number) => i === 0 ? importsEnd : members[i - 1].sourceMap!.end.offset
+  const gapEnd = (i: number) => i === members.length ? previousContent.length : members[i].sourceMap!.start.offset
+  const isBlank = (from: number, to: number) => !previousContent.slice(from, to).trim()
+
+  if (imports.length && changeStart <= importsEnd) return fullParse()
+
+  let lower = members.length
+  while (lower > 0 && gapStart(lower) >= changeStart) lower--
+  while (lower > 0 && !isBlank(gapStart(lower), gapEnd(lower))) lower--
+  if (lower === 0 && imports.length && !isBlank(gapStart(0), gapEnd(0))) return fullParse()
+
+  let upper = lower
+  while (upper < members.length && gapEnd(upper) <= changeEnd) upper++
+  while (upper < members.length && !(isBlank(gapStart(upper), gapEnd(upper)) && previousContent.slice(changeEnd, gapEnd(upper)).includes('\n'))) upper++
+
+  const sliceStart = gapStart(lower)
+  const sliceEnd = gapEnd(upper) + delta
+  const sliceParse = fileMembers.wrap(_, _).parse(content.slice(sliceStart, sliceEnd))
+  if (!sliceParse.status || sliceParse.value.some(member => !(member instanceof Node))) return fullParse()
+
+  const sliceBase = indexAt(content, sliceStart)
+  const reparsed = (sliceParse.value as List<EntityNode>).map(member => shiftNode(member, index => new SourceIndex({
+    offset: index.offset + sliceBase.offset,
+    line: index.line + sliceBase.line - 1,
+    column: index.line === 1 ? index.column + sliceBase.column - 1 : index.column,
+  })))
+
+  const lineDelta = content.slice(changeStart, changeEnd + delta).split('\n').length - previousContent.slice(changeStart, changeEnd).split('\n').length
+  const shifted = members.slice(upper).map(member => shiftNode(member, index => new SourceIndex({
+    offset: index.offset + delta,
+    line: index.line + lineDelta,
+    column: index.column,
+  })))
+
+  return replaceFilePackage(previous, filePackage.copy({ members: [...members.slice(0, lower), ...reparsed, ...shifted] }))
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { List } from '../extensions'
+import { BaseProblem, Level, Problem, SourceMap } from '../model'
+import { WollokException } from '../interpreter/runtimeModel'
+import { getMessage, LANGUAGES } from '../validator/messageReporter'
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+export type CodeFrameOptions = {
+  /** Lines of context to show before the span. Defaults to 2. */
+  linesAbove?: number
+  /** Lines of context to show after the span. Defaults to 2. */
+  linesBelow?: number
+  /** Whether to colour the excerpt with ANSI escape codes. Defaults to false. */
+  color?: boolean
+  /** Text shown after the carets that underline the span. */
+  message?: string
+  /** Colours the span in red for errors and in yellow for warnings. Defaults to `error`. */
+  level?: Level
+}
+
+export type ProblemCodeFrameOptions = CodeFrameOptions & { language?: LANGUAGES }
+
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+// CODE FRAMES
+// ══════════════════════════════════════════════════════════════════════════════════════════════════════════════════
+
+const ANSI = {
+  error: '31',
+  warning: '33',
+  gutter: '90',
+}
+
+const paintWith = (color: boolean) => (code: string, text: string): string => color ? `\x1b[${code}m${text}\x1b[0m` : text
+
+/** Offsets where each line of the content begins. */
+const lineStarts = (content: string): List<number> => {
+  const starts = [0]
+  for (let offset = 0; offset < content.length; offset++) if (content[offset] === '\n') starts.push(offset + 1)
+  return starts
+}
+
+const lineAt = (starts: List<number>, offset: number): number => {
+  let line = 0
+  while (line + 1 < starts.length && starts[line + 1] <= offset) line++
+  return line
+}
+
+/**
+ * Excerpt of the content around the given span: the lines it covers, marked with `>` and underlined with carets, and
+ * some lines of context around them. The span is taken from the offsets of the source map, so the content should be the
+ * same one that was parsed. Empty spans, like the ones of some parse errors, are shown as a single caret.
+ */
+export const codeFrame = (content: string, sourceMap: SourceMap, { linesAbove = 2, linesBelow = 2, color = false, message, level = 'error' }: CodeFrameOptions = {}): string => {
+  const paint = paintWith(color)
+  const lines = content.split('\n').map(line => line.replace(/\r$/, ''))
+  const starts = lineStarts(content)
+  const start = Math.min(Math.max(sourceMap.start.offset, 0), content.length)
+  const end = Math.max(Math.min(sourceMap.end.offset, content.length), start + 1)
+  const startLine = lineAt(starts, start)
+  const endLine = Math.max(lineAt(starts, end - 1), startLine)
+  const firstLine = Math.max(startLine - linesAbove, 0)
+  const lastLine = Math.min(endLine + linesBelow, lines.length - 1)
+  const gutterWidth = `${lastLine + 1}`.length
+
+  const excerpt: string[] = []
+  for (let index = firstLine; index <= lastLine; index++) {
+    const line = lines[index]
+    const isMarked = index >= startLine && index <= endLine
+    const gutter = paint(ANSI.gutter, `${`${index + 1}`.padStart(gutterWidth)} |`)
+    excerpt.push(`${isMarked ? paint(ANSI[level], '>') : ' '} ${gutter}${line ? ` ${line}` : ''}`)
+
+    if (isMarked) {
+      const from = index === startLine ? start - starts[index] : 0
+      const to = index === endLine ? Math.min(end - starts[index], line.length) : line.length
+      const padding = line.slice(0, from).replace(/[^\t]/g, ' ')
+      const carets = '^'.repeat(Math.max(to - from, 1))
+      const note = index === endLine && message ? ` ${message}` : ''
+      excerpt.push(`  ${paint(ANSI.gutter, `${' '.repeat(gutterWidth)} |`)} ${padding}${paint(ANSI[level], `${carets}${note}`)}`)
+    }
+  }
+
+  return excerpt.join('\n')
+}
+
+/**
+ * Code frame of a problem found by the validator or of a `ParseError`, described by its message in the given language.
+ * Problems without a source map are located at their node, if it has one.
+ */
+export const problemCodeFrame = (problem: BaseProblem | Problem, content: string, { language, ...options }: ProblemCodeFrameOptions = {}): string | undefined => {
+  const sourceMap = problem.sourceMap ?? ('node' in problem ? problem.node.sourceMap : undefined)
+  if (!sourceMap) return undefined
+
+  return codeFrame(content, sourceMap, {
+    level: problem.level,
+    message: getMessage({ message: problem.code, values: [...problem.values], language }),
+    ...options,
+  })
+}
+
+/**
+ * Code frame of the innermost user code frame of the stack of the exception, or `undefined` if there is none or the
+ * content of its file is not known.
+ */
+export const exceptionCodeFrame = (exception: WollokException, contentOf: (fileName: string) => string | undefined, options: CodeFrameOptions = {}): string | undefined => {
+  const frame = exception.stackFrames.find(frame => frame.isCustom && frame.fileName && frame.sourceMap)
+  const content = frame && contentOf(frame.fileName!)
+  if (content === undefined) return undefined
+
+  return codeFrame(content, frame!.sourceMap!, {
+    message: `${exception.instance.module.fullyQualifiedName}: ${exception.description}`,
+    ...options,
+  })
+}
\ No newline at end of file
@@ -1,10 +1,10 @@
 import { APPLY_METHOD, CLOSURE_EVALUATE_METHOD, CLOSURE_TO_STRING_METHOD, COLLECTION_MODULE, DATE_MODULE, KEYWORDS, TO_STRING_METHOD } from '../constants'
 import { hash, isEmpty, List } from '../extensions'
 import { assertNotVoid, showParameter } from '../helpers'
-import { assertIsCollection, assertIsNumber, assertIsString, assertIsNotNull, Evaluation, Execution, Frame, Natives, RuntimeObject, RuntimeValue } from '../interpreter/runtimeModel'
-import { Class, Node, Singleton } from '../model'
+import { assertIsCollection, assertIsNumber, assertIsString, assertIsNotNull, Evaluation, Execution, Frame, Natives, RuntimeObject, RuntimeValue, stackFrameLocation } from '../interpreter/runtimeModel'
+import { Class, Singleton } from '../model'
 
-const { abs, ceil, random, floor, round } = Math
+const { abs, ceil, floor, round } = Math
 const { isInteger } = Number
 const { UTC } = Date
 
@@ -92,10 +92,10 @@ const lang: Natives = {
   Exception: {
     *initialize(self: RuntimeObject): Execution<void> {
       const stackTraceElements: RuntimeObject[] = []
-      const customFrames = this.frameStack.slice(0, -1).filter(frame => frame.isCustom())
+      const customFrames = this.captureStack(self).filter(frame => frame.isCustom)
       for(const frame of customFrames){
-        const stackTraceElement = yield* this.send('createStackTraceElement', self, yield* this.reify(frame.description), yield* this.reify(frame.sourceInfo))
-        stackTraceElements.unshift(stackTraceElement!)
+        const stackTraceElement = yield* this.send('createStackTraceElement', self, yield* this.reify(frame.description), yield* this.reify(stackFrameLocation(frame)))
+        stackTraceElements.push(stackTraceElement!)
       }
       self.set('<stackTrace>', yield* this.list(...stackTraceElements))
     },
@@ -166,7 +166,7 @@ const lang: Natives = {
     *anyOne(self: RuntimeObject): Execution<RuntimeValue> {
       const values = self.innerCollection!
       if(isEmpty(values)) throw new RangeError('anyOne: list should not be empty')
-      return values[floor(random() * values.length)]
+      return values[floor(this.random.next() * values.length)]
     },
 
     *fold(self: RuntimeObject, initialValue: RuntimeObject, closure: RuntimeObject): Execution<RuntimeValue> {
@@ -242,7 +242,7 @@ const lang: Natives = {
     *sortBy(self: RuntimeObject, closure: RuntimeObject): Execution<void> {
       assertIsNotNull(closure, 'sortBy', 'closure')
 
-      function*quickSort(this: Evaluation, list: List<RuntimeObject>): Generator<Node, List<RuntimeObject>> {
+      function*quickSort(this: Evaluation, list: List<RuntimeObject>): Execution<List<RuntimeObject>> {
         if(list.length < 2) return [...list]
 
         const [head, ...tail] = list
@@ -554,7 +554,7 @@ const lang: Natives = {
 
     *randomUpTo(self: RuntimeObject, max: RuntimeObject): Execution<RuntimeValue> {
       assertIsNumber(max, 'randomUpTo', 'max')
-      return yield* this.reify(random() * (max.innerNumber! - self.innerNumber!) + self.innerNumber!)
+      return yield* this.reify(this.random.next() * (max.innerNumber! - self.innerNumber!) + self.innerNumber!)
     },
 
     *round(self: RuntimeObject): Execution<RuntimeValue> {
@@ -740,7 +740,7 @@ const lang: Natives = {
         for (let value = start; value >= end; value += step)
           values.push(value)
 
-      return yield* this.reify(values[floor(random() * values.length)])
+      return yield* this.reify(values[floor(this.random.next() * values.length)])
     },
 
   },
@@ -770,7 +770,7 @@ const lang: Natives = {
 
   calendar: {
     *today(_self: RuntimeObject): Execution<RuntimeObject> {
-      const today = new Date()
+      const today = new Date(this.clock.now())
       return yield* this.instantiate(DATE_MODULE, {
         day: yield* this.reify(today.getDate()),
         month: yield* this.reify(today.getMonth() + 1),
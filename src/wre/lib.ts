@@ -1,5 +1,12 @@
 import { TO_STRING_METHOD } from '../constants'
-import { Execution, Natives, RuntimeObject, RuntimeValue } from '../interpreter/runtimeModel'
+import { Evaluation, Execution, Natives, RuntimeObject, RuntimeValue } from '../interpreter/runtimeModel'
+
+const INTEGER = /^\s*[+-]?\d+\s*$/
+
+function* readInput(evaluation: Evaluation): Execution<string | undefined> {
+  const line = evaluation.input.readLine()
+  return line instanceof Promise ? yield line : line
+}
 
 const lib: Natives = {
 
@@ -10,13 +17,14 @@ const lib: Natives = {
     },
 
     *readLine(_self: RuntimeObject): Execution<RuntimeValue> {
-      // TODO: Pending Implementation
-      throw new Error('Native not yet implemented: console.readLine')
+      return yield* this.reify((yield* readInput(this)) ?? null)
     },
 
     *readInt(_self: RuntimeObject): Execution<RuntimeValue> {
-      // TODO: Pending Implementation
-      throw new Error('Native not yet implemented: console.readInt')
+      const line = yield* readInput(this)
+      if (line === undefined) throw new RangeError('Message readInt: there is no more input to read')
+      if (!INTEGER.test(line)) throw new TypeError(`Message readInt: input "${line}" is not an integer number`)
+      return yield* this.reify(Number(line))
     },
 
     *newline(_self: RuntimeObject): Execution<RuntimeValue> {
@@ -0,0 +1,147 @@
+import { expect, should } from 'chai'
+import { buildEnvironment, codeFrame, exceptionCodeFrame, interpret, LANGUAGES, ParseError, problemCodeFrame, SourceIndex, SourceMap, validate, WRENatives } from '../src'
+import { failure } from './utils'
+
+should()
+
+const CONTENT = [
+  'object pepita {',
+  '  var energy = 100',
+  '  method fly(minutes) {',
+  '    energy = energy - minutes * 3',
+  '  }',
+  '  method energy() = energy',
+  '}',
+].join('\n')
+
+const spanOf = (content: string, text: string): SourceMap => {
+  const offset = content.indexOf(text)
+  const indexAt = (at: number) => {
+    const lines = content.slice(0, at).split('\n')
+    return new SourceIndex({ offset: at, line: lines.length, column: lines[lines.length - 1].length + 1 })
+  }
+  return new SourceMap({ start: indexAt(offset), end: indexAt(offset + text.length) })
+}
+
+describe('code frames', () => {
+
+  it('should underline the span and show the lines around it', () => {
+    codeFrame(CONTENT, spanOf(CONTENT, 'minutes * 3'), { message: 'here' }).should.equal([
+      '  2 |   var energy = 100',
+      '  3 |   method fly(minutes) {',
+      '> 4 |     energy = energy - minutes * 3',
+      '    |                       ^^^^^^^^^^^ here',
+      '  5 |   }',
+      '  6 |   method energy() = energy',
+    ].join('\n'))
+  })
+
+  it('should show as many lines around the span as requested', () => {
+    codeFrame(CONTENT, spanOf(CONTENT, 'energy'), { linesAbove: 0, linesBelow: 1 }).should.equal([
+      '> 2 |   var energy = 100',
+      '    |       ^^^^^^',
+      '  3 |   method fly(minutes) {',
+    ].join('\n'))
+  })
+
+  it('should mark every line of a multiline span', () => {
+    codeFrame(CONTENT, spanOf(CONTENT, 'method fly(minutes) {\n    energy = energy - minutes * 3\n  }'), { linesAbove: 0, linesBelow: 0, message: 'fly' }).should.equal([
+      '> 3 |   method fly(minutes) {',
+      '    |   ^^^^^^^^^^^^^^^^^^^^^',
+      '> 4 |     energy = energy - minutes * 3',
+      '    | ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+      '> 5 |   }',
+      '    | ^^^ fly',
+    ].join('\n'))
+  })
+
+  it('should widen the gutter to fit the last line number', () => {
+    const content = Array.from({ length: 10 }, (_, index) => `line${index + 1}`).join('\n')
+    codeFrame(content, spanOf(content, 'line9'), { linesBelow: 1 }).should.equal([
+      '   7 | line7',
+      '   8 | line8',
+      '>  9 | line9',
+      '     | ^^^^^',
+      '  10 | line10',
+    ].join('\n'))
+  })
+
+  it('should keep tabs in the padding so carets stay aligned', () => {
+    const content = '\tobject pepita {}'
+    codeFrame(content, spanOf(content, 'pepita')).should.equal([
+      '> 1 | \tobject pepita {}',
+      '    | \t       ^^^^^^',
+    ].join('\n'))
+  })
+
+  it('should show a single caret for empty spans', () => {
+    const content = 'object pepita {'
+    const end = new SourceIndex({ offset: content.length, line: 1, column: content.length + 1 })
+    codeFrame(content, new SourceMap({ start: end, end })).should.equal([
+      '> 1 | object pepita {',
+      '    |                ^',
+    ].join('\n'))
+  })
+
+  it('should only use ANSI colours when asked to', () => {
+    const sourceMap = spanOf(CONTENT, 'pepita')
+    codeFrame(CONTENT, sourceMap).should.not.include('\x1b[')
+    codeFrame(CONTENT, sourceMap, { color: true }).should.include('\x1b[31m^^^^^^\x1b[0m')
+    codeFrame(CONTENT, sourceMap, { color: true, level: 'warning' }).should.include('\x1b[33m^^^^^^\x1b[0m')
+  })
+
+  describe('of problems', () => {
+
+    it('should describe validation problems with their message', () => {
+      const content = 'object Pepita {}'
+      const [problem] = validate(buildEnvironment([{ name: 'birds.wlk', content }]))
+
+      problemCodeFrame(problem, content)!.should.equal([
+        '> 1 | object Pepita {}',
+        '    |        ^^^^^^ The name Pepita must start with lowercase',
+      ].join('\n'))
+    })
+
+    it('should describe problems in the requested language', () => {
+      const content = 'object Pepita {}'
+      const [problem] = validate(buildEnvironment([{ name: 'birds.wlk', content }]))
+
+      problemCodeFrame(problem, content, { language: LANGUAGES.SPANISH, message: 'custom' })!.should.include('^^^^^^ custom')
+      problemCodeFrame(problem, content, { language: LANGUAGES.SPANISH })!.should.include('Pepita')
+    })
+
+    it('should describe parse errors', () => {
+      const content = 'object pepita {\n  method fly() {\n    return 1 +\n  }\n}'
+      const environment = buildEnvironment([{ name: 'birds.wlk', content }])
+      const problem = environment.descendants.flatMap(node => node.problems ?? []).find(problem => problem instanceof ParseError)!
+
+      problemCodeFrame(problem, content, { linesAbove: 0, linesBelow: 0 })!.should.equal([
+        '> 3 |     return 1 +',
+        '    |              ^ Rule failure: Malformed sentence',
+      ].join('\n'))
+    })
+
+  })
+
+  describe('of exceptions', () => {
+
+    it('should show the innermost user code frame of the stack', () => {
+      const content = 'object pepita {\n  method fly() = self.tire()\n  method tire() = 1 / 0\n}'
+      const interpreter = interpret(buildEnvironment([{ name: 'birds.wlk', content }]), WRENatives)
+      const exception = failure(interpreter, 'birds.pepita', 'fly')
+
+      exceptionCodeFrame(exception, fileName => fileName === 'birds.wlk' ? content : undefined, { linesAbove: 0, linesBelow: 0 })!
+        .should.match(/^> 3 \| {3}method tire\(\) = 1 \/ 0\n {4}\| +\^+ wollok\.lang\.EvaluationError: /)
+    })
+
+    it('should be undefined if the content of the file is unknown', () => {
+      const content = 'object pepita {\n  method fly() = 1 / 0\n}'
+      const interpreter = interpret(buildEnvironment([{ name: 'birds.wlk', content }]), WRENatives)
+      const exception = failure(interpreter, 'birds.pepita', 'fly')
+
+      expect(exceptionCodeFrame(exception, () => undefined)).to.be.undefined
+    })
+
+  })
+
+})
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { expect, should } from 'chai'
+import { buildEnvironment, Class, completionContext, completionsAt, Environment, Evaluation, interprete, Interpreter, link, List, Package, REPL, replCompletions, CompletionCandidate, WRENatives } from '../src'
+import { WREEnvironment } from './utils'
+
+should()
+
+const BIRDS = `import wollok.game.*
+
+class Bird {
+  var energy = 100
+
+  method fly(minutes, places...) {
+    const cost = minutes * 2
+    energy = energy - cost
+    const rest = 1
+    return self.energy()
+  }
+
+  method energy() = energy
+  method cry() = "tweet".toUpperCase()
+}
+
+object pepita inherits Bird {
+  const friends = [self]
+
+  method eat(energy) { return self.cry() }
+}`
+
+const names = (candidates: List<CompletionCandidate>) => candidates.map(candidate => candidate.name)
+
+describe('completion', () => {
+  let environment: Environment
+
+  before(() => {
+    environment = buildEnvironment([{ name: 'birds.wlk', content: BIRDS }], WREEnvironment)
+  })
+
+  /** Completes the content of birds.wlk with the text replaced, at the end of the replacement. */
+  const completeReplacing = (original: string, replacement: string) => {
+    const content = BIRDS.replace(original, replacement)
+    return completionsAt(environment, 'birds.wlk', content, BIRDS.indexOf(original) + replacement.length)
+  }
+
+  describe('context', () => {
+
+    it('should take the name being typed as prefix', () => {
+      completionContext('const a = pepi', 14).should.deep.equal({ prefix: 'pepi' })
+      completionContext('const a = ', 10).should.deep.equal({ prefix: '' })
+    })
+
+    it('should find the receiver of messages', () => {
+      completionContext('pepita.fl', 9).should.deep.equal({ prefix: 'fl', receiver: { text: 'pepita', start: 0, end: 6 } })
+      completionContext('return game.at(1, 2).', 21).receiver!.text.should.equal('game.at(1, 2)')
+      completionContext('1 + "a.b".', 10).receiver!.text.should.equal('"a.b"')
+      completionContext('x = new Bird(energy = 1).e', 26).receiver!.text.should.equal('new Bird(energy = 1)')
+      completionContext('[1, [2]].', 9).receiver!.text.should.equal('[1, [2]]')
+      completionContext('{ x => x }.ap', 13).receiver!.text.should.equal('{ x => x }')
+    })
+
+    it('should not take ranges as message sends', () => {
+      completionContext('1..', 3).should.deep.equal({ prefix: '' })
+    })
+
+  })
+
+  describe('in files', () => {
+
+    it('should complete locals, parameters and fields, innermost first', () => {
+      const candidates = completeReplacing('energy = energy - cost', 'energy = energy - ')
+      names(candidates).slice(0, 4).should.deep.equal(['cost', 'minutes', 'places', 'energy'])
+      candidates.find(candidate => candidate.name === 'energy')!.should.deep.include({ kind: 'field', detail: 'birds.Bird' })
+    })
+
+    it('should not complete locals declared after the offset', () => {
+      names(completeReplacing('energy = energy - cost', 'energy = energy - ')).should.not.include('rest')
+    })
+
+    it('should let inner names hide outer ones', () => {
+      const candidates = completeReplacing('return self.cry()', 'return ener')
+      candidates.filter(candidate => candidate.name === 'energy').should.have.length(1)
+      candidates[0].should.deep.include({ name: 'energy', kind: 'parameter' })
+    })
+
+    it('should complete inherited fields', () => {
+      completeReplacing('return self.cry()', 'return ')
+        .find(candidate => candidate.name === 'friends')!.kind.should.equal('field')
+      names(completeReplacing('return self.cry()', 'return ')).should.include('energy')
+    })
+
+    it('should complete entities of the file, of the imports and of the global packages', () => {
+      const candidates = completeReplacing('return self.cry()', 'return ')
+      candidates.find(candidate => candidate.name === 'Bird')!.should.deep.include({ kind: 'class', detail: 'birds.Bird' })
+      candidates.find(candidate => candidate.name === 'pepita')!.should.deep.include({ kind: 'object', detail: 'birds.pepita' })
+      candidates.find(candidate => candidate.name === 'game')!.should.deep.include({ kind: 'object', detail: 'wollok.game.game' })
+      candidates.find(candidate => candidate.name === 'assert')!.should.deep.include({ kind: 'object', detail: 'wollok.lib.assert' })
+      candidates.find(candidate => candidate.name === 'List')!.should.deep.include({ kind: 'class', detail: 'wollok.lang.List' })
+    })
+
+    it('should complete keywords after names', () => {
+      const candidates = completeReplacing('return self.cry()', 'return ')
+      candidates.find(candidate => candidate.name === 'self')!.kind.should.equal('keyword')
+      candidates.indexOf(candidates.find(candidate => candidate.kind === 'keyword')!).should.be.greaterThan(candidates.findIndex(candidate => candidate.name === 'pepita'))
+    })
+
+    it('should filter by prefix, ranking the ones that match its case first', () => {
+      const candidates = completeReplacing('return self.cry()', 'return P')
+      candidates.every(candidate => candidate.name.toLowerCase().startsWith('p')).should.be.true
+      candidates.findIndex(candidate => candidate.name === 'pepita').should.be.greaterThan(candidates.findIndex(candidate => candidate.name === 'Position'))
+    })
+
+    describe('messages', () => {
+
+      it('should complete the messages of self, those of the module first', () => {
+        const candidates = completeReplacing('return self.energy()', 'return self.')
+        names(candidates).slice(0, 3).should.deep.equal(['fly', 'energy', 'cry'])
+        names(candidates).should.include('toString')
+      })
+
+      it('should include a snippet with the parameters', () => {
+        completeReplacing('return self.energy()', 'return self.fl')[0].should.deep.equal({
+          name: 'fly',
+          label: 'fly(minutes, ...places)',
+          kind: 'method',
+          snippet: 'fly(${1:minutes}, ${2:places})',
+          detail: 'birds.Bird',
+          node: environment.getNodeByFQN<Class>('birds.Bird').methods[0],
+        })
+        completeReplacing('return self.energy()', 'return self.ene')[0].snippet.should.equal('energy()')
+      })
+
+      it('should complete the messages of literals', () => {
+        names(completeReplacing('return self.energy()', 'return "hi".toUpper')).should.deep.equal(['toUpperCase'])
+        names(completeReplacing('return self.energy()', 'return [1, 2].anyO')).should.deep.equal(['anyOne'])
+        names(completeReplacing('return self.energy()', 'return { 1 }.app')).should.deep.equal(['apply'])
+      })
+
+      it('should complete the messages of references to objects and instantiations', () => {
+        names(completeReplacing('return self.energy()', 'return pepita.ea')).should.deep.equal(['eat'])
+        names(completeReplacing('return self.energy()', 'return new Bird().fl')).should.deep.equal(['fly'])
+      })
+
+      it('should complete the messages of variables after their inferred type', () => {
+        names(completeReplacing('return self.energy()', 'return cost.trunc')).should.deep.equal(['truncate'])
+      })
+
+      it('should complete the messages of other expressions after their inferred type', () => {
+        names(completeReplacing('return self.energy()', 'return self.energy().trunc')).should.deep.equal(['truncate'])
+      })
+
+      it('should not keep the receivers in the environment', () => {
+        const { size } = environment.nodeCache
+        completeReplacing('return self.energy()', 'return pepita.ea')
+        completeReplacing('return self.energy()', 'return new Bird().fl')
+
+        environment.nodeCache.size.should.equal(size)
+      })
+
+      it('should complete the messages of Object for receivers that can not be resolved', () => {
+        names(completeReplacing('return self.energy()', 'return unknown.toStr')).should.deep.equal(['toString'])
+      })
+
+    })
+
+  })
+
+  describe('in the REPL', () => {
+    let replEnvironment: Environment
+
+    beforeEach(() => {
+      replEnvironment = link([new Package({ name: REPL })], environment)
+      const interpreter = new Interpreter(Evaluation.build(replEnvironment, WRENatives))
+      interprete(interpreter, 'import birds.*')
+      interprete(interpreter, 'const numbers = [1, 2]')
+    })
+
+    it('should complete the REPL variables and the imported entities', () => {
+      replCompletions(replEnvironment, 'num')[0].should.deep.include({ name: 'numbers', kind: 'variable', detail: 'REPL.numbers' })
+      names(replCompletions(replEnvironment, 'pep')).should.deep.equal(['pepita'])
+    })
+
+    it('should complete the messages of REPL variables after their value', () => {
+      names(replCompletions(replEnvironment, 'numbers.anyO')).should.deep.equal(['anyOne'])
+    })
+
+    it('should complete at the given offset', () => {
+      names(replCompletions(replEnvironment, 'pepita.fl(1) + 2', 9)).should.deep.equal(['fly'])
+    })
+
+    it('should not fail with lines that do not parse', () => {
+      expect(() => replCompletions(replEnvironment, '(((.to')).not.to.throw()
+    })
+
+  })
+
+})
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { should } from 'chai'
+import { buildEnvironment, CoverageCollector, DirectedInterpreter, Evaluation, runTests, Singleton, WRENatives } from '../src'
+
+should()
+
+describe('coverage', () => {
+
+  const environment = buildEnvironment([{
+    name: 'birds.wlk', content: [
+      'object pepita {',
+      '  var energy = 100',
+      '  method fly(distance) {',
+      '    if (distance > 10) {',
+      '      energy = energy - distance',
+      '    } else {',
+      '      energy = energy - 1',
+      '    }',
+      '    return energy',
+      '  }',
+      '  method rest() {',
+      '    try {',
+      '      energy = 100',
+      '    } catch e: DomainException {',
+      '      energy = 0',
+      '    }',
+      '  }',
+      '}',
+    ].join('\n'),
+  }, { name: 'birds.wtest', content: 'import birds.pepita\ntest "flies far" { pepita.fly(20) }' }])
+
+  let coverage: CoverageCollector
+  beforeEach(() => {
+    coverage = new CoverageCollector(environment)
+    runTests(environment, { coverage })
+  })
+
+  it('should aggregate method, line and branch hits per file', () => {
+    const [birds] = coverage.summary().files
+
+    birds.fileName.should.equal('birds.wlk')
+    birds.functions.should.deep.equal([
+      { name: 'birds.pepita.fly/1', line: 3, hits: 1 },
+      { name: 'birds.pepita.rest/0', line: 11, hits: 0 },
+    ])
+    birds.lines.should.deep.equal([
+      { line: 4, hits: 1 },
+      { line: 5, hits: 1 },
+      { line: 7, hits: 0 },
+      { line: 9, hits: 1 },
+      { line: 12, hits: 0 },
+      { line: 13, hits: 0 },
+      { line: 15, hits: 0 },
+    ])
+    birds.branches.should.deep.equal([
+      { line: 4, block: 0, branch: 0, hits: 1 },
+      { line: 4, block: 0, branch: 1, hits: 0 },
+      { line: 12, block: 1, branch: 0, hits: undefined },
+    ])
+  })
+
+  it('should record runs of directed interpreters', () => {
+    const otherCoverage = new CoverageCollector(environment)
+    const interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+    otherCoverage.attach(interpreter.evaluation)
+
+    interpreter.send('rest', interpreter.object('birds.pepita')).finish()
+
+    otherCoverage.summary().files[0].functions.map(({ hits }) => hits).should.deep.equal([0, 1])
+  })
+
+  it('should not record what the debugger evaluates while the execution is paused', () => {
+    const otherCoverage = new CoverageCollector(environment)
+    const interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+    otherCoverage.attach(interpreter.evaluation)
+    const tryToRest = environment.getNodeByFQN<Singleton>('birds.pepita').lookupMethod('rest', 0)!.sentences[0]
+
+    const director = interpreter.send('rest', interpreter.object('birds.pepita'))
+    director.addBreakpoint(tryToRest, { condition: '{ pepita.fly(5) ; true }.apply()' })
+    director.resume().done.should.be.false
+    director.evaluateInFrame(interpreter.evaluation.currentFrame, 'pepita.fly(5)')
+    director.evaluateInFrame(interpreter.evaluation.currentFrame, 'pepita.fly(5)', { keepSideEffects: true })
+    director.finish()
+
+    otherCoverage.summary().files[0].functions.map(({ hits }) => hits).should.deep.equal([0, 1])
+  })
+
+  it('should export lcov tracefiles', () => {
+    coverage.toLcov().should.equal([
+      'TN:',
+      'SF:birds.wlk',
+      'FN:3,birds.pepita.fly/1',
+      'FN:11,birds.pepita.rest/0',
+      'FNDA:1,birds.pepita.fly/1',
+      'FNDA:0,birds.pepita.rest/0',
+      'FNF:2',
+      'FNH:1',
+      'BRDA:4,0,0,1',
+      'BRDA:4,0,1,0',
+      'BRDA:12,1,0,-',
+      'BRF:3',
+      'BRH:1',
+      'DA:4,1',
+      'DA:5,1',
+      'DA:7,0',
+      'DA:9,1',
+      'DA:12,0',
+      'DA:13,0',
+      'DA:15,0',
+      'LF:7',
+      'LH:3',
+      'end_of_record',
+      'TN:',
+      'SF:birds.wtest',
+      'FNF:0',
+      'FNH:0',
+      'BRF:0',
+      'BRH:0',
+      'DA:2,1',
+      'LF:1',
+      'LH:1',
+      'end_of_record',
+    ].join('\n'))
+  })
+
+  it('should export JSON summaries with totals', () => {
+    JSON.parse(JSON.stringify(coverage)).totals.should.deep.equal({
+      functions: { found: 2, hit: 1 },
+      lines: { found: 8, hit: 4 },
+      branches: { found: 3, hit: 1 },
+    })
+  })
+
+})
\ No newline at end of file
@@ -0,0 +1,311 @@
+import { expect, should } from 'chai'
+import { PassThrough } from 'stream'
+import { buildEnvironment, DebugProtocolMessage, DebugSession, InMemoryTransport, StreamTransport } from '../src'
+
+should()
+
+const PROGRAM = [
+  'object pepita {',
+  '  var energy = 100',
+  '  method fly(distance) {',
+  '    energy = energy - distance',
+  '    return energy',
+  '  }',
+  '}',
+  'program main {',
+  '  const distance = 10',
+  '  pepita.fly(distance)',
+  '  console.println(pepita.fly(5))',
+  '}',
+].join('\n')
+
+class TestClient {
+  readonly received: DebugProtocolMessage[] = []
+  protected readonly transport: InMemoryTransport
+  protected sequence = 1
+
+  constructor(transport: InMemoryTransport) {
+    this.transport = transport
+    transport.onMessage(message => this.received.push(message))
+  }
+
+  request(command: string, args?: any): any {
+    const seq = this.sequence++
+    this.transport.send({ seq, type: 'request', command, arguments: args })
+    const response = this.received.find(message => message.type === 'response' && message.request_seq === seq)
+    if (!response) throw new Error(`No response to ${command}`)
+    return response
+  }
+
+  events(event: string): any[] {
+    return this.received.filter(message => message.type === 'event' && message.event === event)
+  }
+}
+
+describe('Debug adapter', () => {
+
+  let client: TestClient
+
+  const launch = (breakpoints: number[], stopOnEntry = false) => {
+    client.request('initialize', { adapterID: 'wollok' })
+    client.request('setBreakpoints', { source: { path: '/home/student/birds.wpgm' }, breakpoints: breakpoints.map(line => ({ line })) })
+    client.request('launch', { target: 'birds.main', stopOnEntry })
+    client.request('configurationDone')
+  }
+
+  const topFrame = () => client.request('stackTrace', { threadId: 1 }).body.stackFrames[0]
+
+  beforeEach(() => {
+    const [clientTransport, serverTransport] = InMemoryTransport.pair()
+    new DebugSession(buildEnvironment([{ name: 'birds.wpgm', content: PROGRAM }]), serverTransport)
+    client = new TestClient(clientTransport)
+  })
+
+  it('should answer initialize with its capabilities', () => {
+    const response = client.request('initialize', { adapterID: 'wollok' })
+
+    response.success.should.be.true
+    response.body.supportsConfigurationDoneRequest.should.be.true
+    client.events('initialized').should.have.length(1)
+  })
+
+  it('should verify breakpoints, moving them to the next line with executable code', () => {
+    client.request('initialize')
+    const { body } = client.request('setBreakpoints', { source: { path: 'birds.wpgm' }, breakpoints: [{ line: 3 }, { line: 10 }, { line: 40 }] })
+
+    body.breakpoints.map(({ verified, line }: any) => [verified, line]).should.deep.equal([[true, 4], [true, 10], [false, 40]])
+  })
+
+  it('should stop at breakpoints set by file and line', () => {
+    launch([4])
+
+    client.events('stopped').map(({ body }) => body.reason).should.deep.equal(['breakpoint'])
+    const frame = topFrame()
+    frame.name.should.equal('birds.pepita.fly(distance)')
+    frame.line.should.equal(4)
+    frame.source.path.should.equal('birds.wpgm')
+  })
+
+  it('should honour conditions and hit conditions of breakpoints', () => {
+    client.request('initialize')
+    client.request('setBreakpoints', { source: { path: 'birds.wpgm' }, breakpoints: [{ line: 4, condition: 'distance < 10' }] })
+    client.request('launch', { target: 'birds.main' })
+    client.request('configurationDone')
+
+    client.events('stopped').should.have.length(1)
+    topFrame().line.should.equal(4)
+    const [scope] = client.request('scopes', { frameId: topFrame().id }).body.scopes
+    client.request('variables', { variablesReference: scope.variablesReference }).body.variables[1].value.should.equal('5')
+  })
+
+  it('should not verify breakpoints with invalid hit conditions', () => {
+    client.request('initialize')
+    const { body } = client.request('setBreakpoints', { source: { path: 'birds.wpgm' }, breakpoints: [{ line: 4, hitCondition: 'every 2' }] })
+    client.request('launch', { target: 'birds.main' })
+    client.request('configurationDone')
+
+    body.breakpoints.should.deep.equal([{ verified: false, line: 4, source: { path: 'birds.wpgm' }, message: 'Invalid hit condition: every 2' }])
+    client.events('stopped').should.be.empty
+    client.events('exited').map(({ body }) => body.exitCode).should.deep.equal([0])
+  })
+
+  it('should log messages on logpoints instead of stopping', () => {
+    client.request('initialize')
+    client.request('setBreakpoints', { source: { path: 'birds.wpgm' }, breakpoints: [{ line: 4, logMessage: 'flying {distance}' }] })
+    client.request('launch', { target: 'birds.main' })
+    client.request('configurationDone')
+
+    client.events('stopped').should.be.empty
+    client.events('output').map(({ body }) => body.output).should.deep.equal(['flying 10\n', 'flying 5\n', '85\n'])
+  })
+
+  it('should stop on uncaught exceptions and describe them', () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.pair()
+    new DebugSession(buildEnvironment([{ name: 'fail.wpgm', content: 'program main {\n  const list = []\n  list.first()\n}' }]), serverTransport)
+    client = new TestClient(clientTransport)
+
+    client.request('initialize')
+    client.request('setExceptionBreakpoints', { filters: ['uncaught'] })
+    client.request('launch', { target: 'fail.main' })
+    client.request('configurationDone')
+
+    const [stopped] = client.events('stopped')
+    stopped.body.reason.should.equal('exception')
+    const { body } = client.request('exceptionInfo', { threadId: 1 })
+    body.exceptionId.should.equal('wollok.lang.Exception')
+    body.description.should.contain('head')
+    body.breakMode.should.equal('unhandled')
+
+    client.request('continue', { threadId: 1 })
+    client.events('exited').map(({ body }) => body.exitCode).should.deep.equal([1])
+  })
+
+  it('should step back when launched with history', () => {
+    client.request('initialize')
+    client.request('setBreakpoints', { source: { path: 'birds.wpgm' }, breakpoints: [{ line: 4 }] })
+    client.request('launch', { target: 'birds.main', history: true })
+    client.request('configurationDone')
+    client.request('continue', { threadId: 1 })
+
+    client.request('reverseContinue', { threadId: 1 }).success.should.be.true
+
+    client.events('stopped').map(({ body }) => body.reason).should.deep.equal(['breakpoint', 'breakpoint', 'breakpoint'])
+    const [scope] = client.request('scopes', { frameId: topFrame().id }).body.scopes
+    client.request('variables', { variablesReference: scope.variablesReference }).body.variables[1].value.should.equal('10')
+    client.request('stepBack', { threadId: 1 }).success.should.be.true
+  })
+
+  it('should not step back without history', () => {
+    launch([4])
+
+    client.request('stepBack', { threadId: 1 }).success.should.be.false
+  })
+
+  it('should stop on entry', () => {
+    launch([], true)
+
+    client.events('stopped').map(({ body }) => body.reason).should.deep.equal(['entry'])
+  })
+
+  it('should report the stack trace of the paused execution', () => {
+    launch([4])
+
+    client.request('stackTrace', { threadId: 1 }).body.stackFrames.map(({ name, line }: any) => [name, line]).should.deep.equal([
+      ['birds.pepita.fly(distance)', 4],
+      ['birds.main', 10],
+    ])
+  })
+
+  it('should expose the variables of a frame and expand objects', () => {
+    launch([4])
+
+    const [scope] = client.request('scopes', { frameId: topFrame().id }).body.scopes
+    const variables = client.request('variables', { variablesReference: scope.variablesReference }).body.variables
+    variables.map(({ name, value }: any) => [name, value]).should.deep.equal([['self', 'pepita'], ['distance', '10']])
+
+    const self = variables.find(({ name }: any) => name === 'self')
+    client.request('variables', { variablesReference: self.variablesReference }).body.variables
+      .map(({ name, value }: any) => [name, value]).should.deep.equal([['energy', '100']])
+  })
+
+  it('should evaluate expressions in the selected frame', () => {
+    launch([4])
+
+    const { body } = client.request('evaluate', { expression: 'distance * 2 + energy', frameId: topFrame().id, context: 'watch' })
+    body.result.should.equal('120')
+    body.type.should.equal('wollok.lang.Number')
+    client.request('evaluate', { expression: 'self', frameId: topFrame().id }).body.variablesReference.should.be.above(0)
+  })
+
+  it('should only keep the side effects of expressions evaluated from the console', () => {
+    launch([4])
+
+    client.request('evaluate', { expression: 'pepita.fly(50)', frameId: topFrame().id, context: 'watch' })
+    client.request('evaluate', { expression: 'energy', frameId: topFrame().id }).body.result.should.equal('100')
+    client.request('evaluate', { expression: 'pepita.fly(50)', frameId: topFrame().id, context: 'repl' })
+    client.request('evaluate', { expression: 'energy', frameId: topFrame().id }).body.result.should.equal('50')
+  })
+
+  it('should fail to evaluate wrong expressions', () => {
+    launch([4])
+
+    client.request('evaluate', { expression: 'distance.fly()', frameId: topFrame().id }).success.should.be.false
+    client.request('evaluate', { expression: 'altitude', frameId: topFrame().id }).message.should.equal('Unknown reference altitude')
+  })
+
+  it('should step over one line at a time', () => {
+    launch([4])
+
+    client.request('next', { threadId: 1 })
+
+    client.events('stopped').map(({ body }) => body.reason).should.deep.equal(['breakpoint', 'step'])
+    topFrame().line.should.equal(5)
+  })
+
+  it('should step out of the current method', () => {
+    launch([4])
+
+    client.request('stepOut', { threadId: 1 })
+
+    topFrame().name.should.equal('birds.main')
+  })
+
+  it('should continue until the next breakpoint or the end of the program', () => {
+    launch([4])
+
+    client.request('continue', { threadId: 1 })
+    client.events('stopped').should.have.length(2)
+
+    client.request('continue', { threadId: 1 })
+    client.events('output').map(({ body }) => body.output).should.deep.equal(['85\n'])
+    client.events('exited').map(({ body }) => body.exitCode).should.deep.equal([0])
+    client.events('terminated').should.have.length(1)
+  })
+
+  it('should fail to launch unknown targets', () => {
+    client.request('initialize')
+    const response = client.request('launch', { target: 'birds.missing' })
+
+    response.success.should.be.false
+    response.message.should.contain('birds.missing')
+  })
+
+  it('should fail on unknown commands', () => {
+    client.request('fly').success.should.be.false
+  })
+
+  describe('stream transport', () => {
+
+    it('should read and write messages framed with content length headers', () => {
+      const input = new PassThrough()
+      const output = new PassThrough()
+      const transport = new StreamTransport(input, output)
+      const received: DebugProtocolMessage[] = []
+      transport.onMessage(message => received.push(message))
+
+      const request = JSON.stringify({ seq: 1, type: 'request', command: 'initialize', arguments: { name: 'ñandú' } })
+      const framed = `Content-Length: ${Buffer.byteLength(request)}\r\n\r\n${request}`
+      input.write(framed.slice(0, 10))
+      input.write(framed.slice(10) + framed)
+      transport.send({ seq: 1, type: 'event', event: 'initialized' })
+
+      received.should.have.length(2)
+      received[0].should.deep.equal(JSON.parse(request))
+      expect(output.read().toString()).to.equal('Content-Length: 46\r\n\r\n{"seq":1,"type":"event","event":"initialized"}')
+    })
+
+    it('should drop and report the messages it can not read', () => {
+      const input = new PassThrough()
+      const transport = new StreamTransport(input, new PassThrough())
+      const received: DebugProtocolMessage[] = []
+      const errors: string[] = []
+      transport.onMessage(message => received.push(message))
+      transport.onError(error => errors.push(error.message))
+
+      const request = JSON.stringify({ seq: 1, type: 'request', command: 'threads' })
+      input.write('Content-Type: json\r\n\r\n')
+      input.write('Content-Length: 5\r\n\r\n{seq:')
+      input.write(`Content-Length: ${Buffer.byteLength(request)}\r\n\r\n${request}`)
+
+      errors.should.have.length(2)
+      errors[0].should.equal('Missing Content-Length header in debug protocol message')
+      errors[1].should.contain('Malformed debug protocol message')
+      received.should.deep.equal([JSON.parse(request)])
+    })
+
+    it('should only stop its own listening of the input when closed', () => {
+      const input = new PassThrough()
+      const transport = new StreamTransport(input, new PassThrough())
+      const chunks: string[] = []
+      input.on('data', chunk => chunks.push(chunk.toString()))
+
+      transport.close()
+      input.write('still read')
+
+      input.listenerCount('data').should.equal(1)
+      chunks.should.deep.equal(['still read'])
+    })
+
+  })
+
+})
\ No newline at end of file
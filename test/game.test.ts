@@ -19,12 +19,19 @@ describe('Wollok Game', () => {
       logs.push(obj.innerString!)
     }
 
+    const wConsole = get<Natives>(natives, 'wollok.lib.console')!
+    const println = wConsole.println
+
     before(async () => {
       environment = await buildEnvironment(`**/*.${PROGRAM_FILE_EXTENSION}`, resolve('language', 'test', 'game'))
-      const wConsole = get<Natives>(natives, 'wollok.lib.console')!
       wConsole.println = mockNativeFunction
     })
 
+    after(() => {
+      // The natives are shared by every test file run in the same process
+      wConsole.println = println
+    })
+
     beforeEach(() => {
       interpreter = interpret(environment, natives)
     })
@@ -0,0 +1,137 @@
+import { expect, should } from 'chai'
+import { buildEnvironment, Class, DirectedInterpreter, Evaluation, Frame, InspectedVariable, Inspector, List, WRENatives } from '../src'
+
+should()
+
+describe('inspector', () => {
+
+  const environment = buildEnvironment([{
+    name: 'birds.wpgm', content: `
+      mixin Named { var property name = "tweety" }
+      class Animal { const legs = 2 }
+      class Bird inherits Named and Animal {
+        var energy = 10
+        method fly(distance) {
+          const route = [distance, "home"]
+          const visits = new Dictionary()
+          visits.put("home", 3)
+          const range = 10..4
+          return route
+        }
+      }
+      object pepita { var energy = 100 }
+      object counter {
+        var property shown = 0
+        override method toString() {
+          shown += 1
+          return "counter " + shown
+        }
+      }
+      program main {
+        new Bird().fly(3)
+      }
+    `,
+  }])
+  const returnSentence = environment.getNodeByFQN<Class>('birds.Bird').lookupMethod('fly', 1)!.sentences[4]
+
+  let inspector: Inspector
+  let frame: Frame
+  beforeEach(() => {
+    const interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+    const director = interpreter.run('birds.main')
+    director.addBreakpoint(returnSentence)
+    director.resume()
+    frame = interpreter.evaluation.currentFrame
+    inspector = new Inspector(interpreter.evaluation)
+  })
+
+  const summary = (variables: List<InspectedVariable>) => variables.map(({ name, kind, value }) => [name, kind, value])
+  const variable = (variables: List<InspectedVariable>, name: string) => variables.find(_ => _.name === name)!
+
+  it('should list self, parameters and locals of a frame', () => {
+    summary(inspector.frameVariables(frame)).should.deep.equal([
+      ['self', 'self', 'a Bird'],
+      ['distance', 'parameter', '3'],
+      ['route', 'local', '[3, "home"]'],
+      ['visits', 'local', 'a Dictionary ["home" -> 3]'],
+      ['range', 'local', '10..4'],
+    ])
+  })
+
+  it('should group the fields of objects by declaring module', () => {
+    const self = variable(inspector.frameVariables(frame), 'self')
+    const groups = inspector.children(self.reference)
+
+    summary(groups).should.deep.equal([
+      ['birds.Bird', 'fields', '1 fields'],
+      ['birds.Named', 'fields', '1 fields'],
+      ['birds.Animal', 'fields', '1 fields'],
+    ])
+    summary(inspector.children(groups[1].reference)).should.deep.equal([['name', 'field', '"tweety"']])
+    inspector.children(groups[2].reference)[0].should.include({ constant: true, type: 'wollok.lang.Number' })
+  })
+
+  it('should not group the fields declared by a single module', () => {
+    summary(inspector.objectVariables(frame.get('birds.pepita')!)).should.deep.equal([
+      ['energy', 'field', '100'],
+    ])
+  })
+
+  it('should expand collections, dictionaries, ranges and strings into their contents', () => {
+    const variables = inspector.frameVariables(frame)
+
+    const route = inspector.children(variable(variables, 'route').reference)
+    summary(route).should.deep.equal([['[0]', 'element', '3'], ['[1]', 'element', '"home"']])
+    summary(inspector.children(route[1].reference)).should.deep.equal([
+      ['[0]', 'character', '"h"'], ['[1]', 'character', '"o"'], ['[2]', 'character', '"m"'], ['[3]', 'character', '"e"'],
+    ])
+    route[0].reference.should.equal(0)
+
+    const [entry] = inspector.children(variable(variables, 'visits').reference)
+    summary([entry]).should.deep.equal([['"home"', 'entry', '3']])
+    summary(inspector.children(entry.reference)).should.deep.equal([['key', 'key', '"home"'], ['value', 'value', '3']])
+
+    const range = inspector.children(variable(variables, 'range').reference)
+    summary(range.slice(0, 7)).should.deep.equal([
+      ['[0]', 'element', '10'], ['[1]', 'element', '9'], ['[2]', 'element', '8'], ['[3]', 'element', '7'], ['[4]', 'element', '6'], ['[5]', 'element', '5'], ['[6]', 'element', '4'],
+    ])
+  })
+
+  it('should page the children of large objects', () => {
+    const range = variable(inspector.frameVariables(frame), 'range')
+
+    summary(inspector.children(range.reference, { start: 5, count: 3 })).should.deep.equal([
+      ['[5]', 'element', '5'], ['[6]', 'element', '4'], ['start', 'field', '10'],
+    ])
+  })
+
+  it('should keep the same reference for the same element', () => {
+    const route = variable(inspector.frameVariables(frame), 'route')
+
+    variable(inspector.frameVariables(frame), 'route').reference.should.equal(route.reference)
+    inspector.frameReference(frame).should.equal(inspector.frameReference(frame))
+    inspector.children(route.reference)[1].reference.should.equal(inspector.children(route.reference)[1].reference)
+  })
+
+  it('should show objects without running the side effects of their toString on the program', () => {
+    const counter = frame.get('birds.counter')!
+
+    inspector.inspect('counter', counter).value.should.equal('counter 1')
+    inspector.inspect('counter', counter).value.should.equal('counter 2')
+    counter.get('shown')!.innerNumber!.should.equal(0)
+  })
+
+  it('should not emit the events of showing objects to the listeners of the program', () => {
+    const steps: unknown[] = []
+    inspector.evaluation.onStep(step => steps.push(step))
+
+    inspector.inspect('counter', frame.get('birds.counter')!).value.should.equal('counter 1')
+    steps.should.be.empty
+  })
+
+  it('should not expand values without children', () => {
+    variable(inspector.frameVariables(frame), 'distance').reference.should.equal(0)
+    expect(() => inspector.children(1000)).to.throw('Unknown inspection reference 1000')
+  })
+
+})
\ No newline at end of file
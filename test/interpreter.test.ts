@@ -1,11 +1,12 @@
 import { expect, should, use } from 'chai'
 import { restore } from 'sinon'
+import { PassThrough } from 'stream'
 import sinonChai from 'sinon-chai'
-import { EXCEPTION_MODULE, Evaluation, REPL, WRENatives, buildEnvironment } from '../src'
-import { DirectedInterpreter, getStackTraceSanitized, interprete, Interpreter } from '../src/interpreter/interpreter'
+import { EXCEPTION_MODULE, Evaluation, Execution, ExecutionAbortedError, Frame, InputProvider, Natives, RuntimeObject, RuntimeValue, QueueInput, SeededRandom, StreamInput, VirtualClock, WollokException, REPL, WRENatives, buildEnvironment, CoverageCollector } from '../src'
+import { AsyncInterpreter, DirectedInterpreter, ExceptionBreakMode, ExecutionDirector, getStackTraceSanitized, interprete, Interpreter } from '../src/interpreter/interpreter'
 import link from '../src/linker'
-import { Body, Class, Field, Literal, Method, Package, ParameterizedType, Reference, Return, Send, Singleton, SourceIndex, SourceMap } from '../src/model'
-import { WREEnvironment } from './utils'
+import { Body, Class, Field, Literal, Method, Node, Package, ParameterizedType, Reference, Return, Send, Singleton, SourceIndex, SourceMap } from '../src/model'
+import { failure as failureOf, WREEnvironment } from './utils'
 
 use(sinonChai)
 should()
@@ -135,6 +136,427 @@ describe('Wollok Interpreter', () => {
       Evaluation.build(environment, {})
     })
 
+    describe('randomness', () => {
+
+      const environment = buildEnvironment([{
+        name: 'dice.wlk', content: `
+          object dice {
+            method roll() = (1..6).anyOne()
+            method rolls() = (1..20).map { i => self.roll() }
+            method pick() = #{"a", "b", "c", "d"}.anyOne()
+            method noise() = 0.randomUpTo(1)
+          }
+        `,
+      }])
+
+      const rolls = (interpreter: Interpreter) => ['rolls', 'pick', 'noise'].map(message =>
+        interpreter.send(message, interpreter.object('dice.dice'))!.getShortRepresentation()
+      )
+
+      it('should produce the same numbers for the same seed', () => {
+        const first = new Interpreter(Evaluation.build(environment, WRENatives, { random: new SeededRandom(42) }))
+        const second = new Interpreter(Evaluation.build(environment, WRENatives, { random: new SeededRandom(42) }))
+
+        rolls(first).should.deep.equal(rolls(second))
+        first.evaluation.random.seed!.should.equal(42)
+      })
+
+      it('should produce different numbers for different seeds', () => {
+        const first = new Interpreter(Evaluation.build(environment, WRENatives, { random: new SeededRandom(1) }))
+        const second = new Interpreter(Evaluation.build(environment, WRENatives, { random: new SeededRandom(2) }))
+
+        rolls(first).should.not.deep.equal(rolls(second))
+      })
+
+      it('should continue the same sequence on copies', () => {
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+        rolls(interpreter)
+        const fork = interpreter.fork()
+
+        fork.evaluation.random.seed!.should.equal(interpreter.evaluation.random.seed)
+        rolls(fork).should.deep.equal(rolls(interpreter))
+      })
+
+      it('should use the given random source', () => {
+        const random = { next: () => 0.99, copy() { return this } }
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives, { random }))
+
+        interpreter.send('roll', interpreter.object('dice.dice'))!.innerNumber!.should.equal(6)
+      })
+
+    })
+
+    describe('clock', () => {
+
+      const environment = buildEnvironment([{
+        name: 'clock.wlk', content: `
+          import wollok.game.*
+          object clock {
+            method today() = calendar.today()
+            method leapDay() = new Date().isLeapYear() and new Date().day() == 29
+          }
+          object bird { var property position = game.origin() }
+        `,
+      }])
+
+      it('should take today from the clock of the evaluation', () => {
+        const clock = new VirtualClock(new Date(2024, 1, 29, 12))
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives, { clock }))
+
+        const today = interpreter.send('today', interpreter.object('clock.clock'))!
+        const fields = ['day', 'month', 'year']
+        fields.map(field => today.get(field)!.innerNumber).should.deep.equal([29, 2, 2024])
+        interpreter.send('leapDay', interpreter.object('clock.clock'))!.innerBoolean!.should.be.true
+
+        clock.advance(24 * 60 * 60 * 1000)
+        interpreter.send('today', interpreter.object('clock.clock'))!.get('day')!.innerNumber!.should.equal(1)
+      })
+
+      it('should keep the time of the clock on copies', () => {
+        const clock = new VirtualClock(new Date(2024, 1, 29, 12))
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives, { clock }))
+        const fork = interpreter.fork()
+
+        clock.set(new Date(2025, 0, 1, 12))
+        fork.evaluation.clock.now().should.equal(+new Date(2024, 1, 29, 12))
+        fork.send('today', fork.object('clock.clock'))!.get('year')!.innerNumber!.should.equal(2024)
+      })
+
+      it('should let drivers advance the game time with the clock', () => {
+        const clock = new VirtualClock()
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives, { clock }))
+        const game = interpreter.object('wollok.game.game')
+
+        clock.advance(1500)
+        interpreter.send('flushEvents', game, interpreter.reify(clock.now()))
+        interpreter.send('say', game, interpreter.object('clock.bird'), interpreter.reify('hi'))
+
+        interpreter.object('clock.bird').get('messageTime')!.innerNumber!.should.equal(3500)
+      })
+
+      it('should keep the game time of the last flush when the clock moves on its own', () => {
+        const clock = new VirtualClock(new Date(2024, 1, 29, 12))
+        const interpreter = new Interpreter(Evaluation.build(environment, WRENatives, { clock }))
+        const game = interpreter.object('wollok.game.game')
+
+        interpreter.send('flushEvents', game, interpreter.reify(1500))
+        clock.advance(1000)
+        interpreter.send('say', game, interpreter.object('clock.bird'), interpreter.reify('hi'))
+
+        interpreter.object('clock.bird').get('messageTime')!.innerNumber!.should.equal(3500)
+      })
+
+    })
+
+    describe('input', () => {
+
+      const environment = buildEnvironment([{
+        name: 'input.wlk', content: `
+          object reader {
+            method line() = console.readLine()
+            method number() = console.readInt()
+            method safeNumber() {
+              try {
+                return console.readInt()
+              } catch e: EvaluationError {
+                return -1
+              }
+            }
+          }
+        `,
+      }])
+
+      const interpreterReading = (input: InputProvider) => new Interpreter(Evaluation.build(environment, WRENatives, { input }))
+      const send = (interpreter: Interpreter, message: string) => interpreter.send(message, interpreter.object('input.reader'))!
+
+      it('should read lines from the input until it is over', () => {
+        const interpreter = interpreterReading(new QueueInput(['hello', 'world']))
+
+        send(interpreter, 'line').innerString!.should.equal('hello')
+        send(interpreter, 'line').innerString!.should.equal('world')
+        expect(send(interpreter, 'line').innerValue).to.be.null
+      })
+
+      it('should read integer numbers', () => {
+        const input = new QueueInput([' 42 ', '-7'])
+        const interpreter = interpreterReading(input)
+
+        send(interpreter, 'number').innerNumber!.should.equal(42)
+        send(interpreter, 'number').innerNumber!.should.equal(-7)
+        input.push('3')
+        interpreter.fork().send('number', interpreter.object('input.reader'))!.innerNumber!.should.equal(3)
+      })
+
+      it('should raise a Wollok exception when the input is not an integer number', () => {
+        const interpreter = interpreterReading(new QueueInput(['4.5', 'four']))
+
+        expect(() => send(interpreter, 'number')).to.throw(WollokException, 'input "4.5" is not an integer number')
+        send(interpreter, 'safeNumber').innerNumber!.should.equal(-1)
+        expect(() => send(interpreter, 'number')).to.throw(WollokException, 'there is no more input to read')
+      })
+
+      it('should fail to wait for asynchronous input', () => {
+        const interpreter = interpreterReading({ readLine: () => Promise.resolve('late') })
+
+        expect(() => send(interpreter, 'line')).to.throw(WollokException, 'only wait for promises when run by an asynchronous interpreter')
+      })
+
+      it('should read the lines of a stream', async () => {
+        const stream = new PassThrough()
+        const input = new StreamInput(stream)
+
+        const firstLine = input.readLine()
+        stream.write('first\r\nsecond\nthi')
+        stream.end('rd')
+
+        expect(await firstLine).to.equal('first')
+        expect(await input.readLine()).to.equal('second')
+        expect(await input.readLine()).to.equal('third')
+        expect(await input.readLine()).to.be.undefined
+      })
+
+    })
+
+    describe('abort', () => {
+
+      const environment = buildEnvironment([{ name: REPL, content: '' }, {
+        name: 'abort.wlk', content: `
+          object worker {
+            var property cleanedUp = false
+            var property caught = false
+            method work(n) {
+              try {
+                var total = 0
+                (1..n).forEach { i => total += i }
+                return total
+              } catch e {
+                caught = true
+              } then always {
+                cleanedUp = true
+              }
+            }
+          }
+        `,
+      }])
+
+      let interpreter: Interpreter
+      let controller: AbortController
+      beforeEach(() => {
+        interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+        controller = new AbortController()
+      })
+
+      const abortAfter = (steps: number) => {
+        let taken = 0
+        interpreter.evaluation.onStep(() => { if (++taken === steps) controller.abort() })
+      }
+
+      it('should unwind the execution once the signal is aborted', () => {
+        abortAfter(100)
+        const worker = interpreter.object('abort.worker')
+
+        expect(() => interpreter.withSignal(controller.signal).send('work', worker, interpreter.reify(1000))).to.throw(ExecutionAbortedError)
+        interpreter.evaluation.frameStack.should.have.length(1)
+        interpreter.send('caught', worker)!.innerBoolean!.should.be.false
+      })
+
+      it('should not run anything with an already aborted signal', () => {
+        controller.abort()
+        const worker = interpreter.object('abort.worker')
+
+        expect(() => interpreter.withSignal(controller.signal).send('work', worker, interpreter.reify(10))).to.throw(ExecutionAbortedError)
+        interpreter.send('cleanedUp', worker)!.innerBoolean!.should.be.false
+      })
+
+      it('should let the interpreter run again without the signal', () => {
+        abortAfter(100)
+        const worker = interpreter.object('abort.worker')
+        const abortable = interpreter.withSignal(controller.signal)
+
+        expect(() => abortable.send('work', worker, interpreter.reify(1000))).to.throw(ExecutionAbortedError)
+        interpreter.send('work', worker, interpreter.reify(10))!.innerNumber!.should.equal(55)
+        expect(() => abortable.fork().send('work', worker, interpreter.reify(10))).to.throw(ExecutionAbortedError)
+      })
+
+      it('should report aborted REPL sentences', () => {
+        controller.abort()
+
+        const { errored, result, error } = interprete(interpreter.withSignal(controller.signal), 'abort.worker.work(10)')
+        errored.should.be.true
+        result.should.equal('Execution aborted')
+        error!.should.be.instanceOf(ExecutionAbortedError)
+      })
+
+    })
+
+    describe('hooks', () => {
+
+      const environment = buildEnvironment([{
+        name: 'hooks.wlk', content: `
+          class Bird {
+            var energy = 10
+            method fly(distance) {
+              energy = energy - distance
+              return energy
+            }
+          }
+          object trainer {
+            method train() = new Bird().fly(3)
+            method rescue() {
+              try {
+                throw new DomainException(message = "tired")
+              } catch e: DomainException {
+                return e.message()
+              }
+            }
+          }
+        `,
+      }])
+
+      let interpreter: Interpreter
+      beforeEach(() => {
+        interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+      })
+
+      const trainer = () => interpreter.object('hooks.trainer')
+
+      it('should notify sends with their resolved method and returns with their value', () => {
+        const sends: string[] = []
+        const returns: string[] = []
+        interpreter.evaluation.onSend(({ message, args, method }) => sends.push(`${message}/${args.length}:${method?.parent.name}`))
+        interpreter.evaluation.onReturn(({ method, value }) => returns.push(`${method.name}=${value?.innerNumber}`))
+
+        interpreter.send('train', trainer())
+        expect(() => interpreter.send('unknownMessage', trainer())).to.throw(WollokException)
+
+        sends.should.include.members(['train/0:trainer', 'fly/1:Bird', 'unknownMessage/0:undefined'])
+        returns.should.include.members(['fly=7', 'train=7'])
+      })
+
+      it('should notify instantiations and assignments with the old and new values', () => {
+        const instances: string[] = []
+        const assignments: string[] = []
+        interpreter.evaluation.onInstantiate(({ instance }) => instances.push(instance.module.name!))
+        interpreter.evaluation.onAssignment(({ context, name, oldValue, newValue }) =>
+          assignments.push(`${(context as RuntimeObject).module.name}.${name}: ${oldValue?.innerNumber} -> ${newValue.innerNumber}`)
+        )
+
+        interpreter.send('train', trainer())
+
+        instances.should.include('Bird')
+        assignments.should.deep.equal(['Bird.energy: 10 -> 7'])
+      })
+
+      it('should notify raised and caught exceptions', () => {
+        const events: string[] = []
+        interpreter.evaluation.onThrow(({ exception }) => events.push(`throw ${exception.instance.module.name}`))
+        interpreter.evaluation.onCatch(({ handler, exception }) => events.push(`catch ${exception.instance.module.name} as ${handler.parameter.name}`))
+
+        interpreter.send('rescue', trainer())!.innerString!.should.equal('tired')
+
+        events.should.deep.equal(['throw DomainException', 'catch DomainException as e'])
+      })
+
+      it('should notify every pushed frame when it is popped', () => {
+        const pushed: Frame[] = []
+        const popped: Frame[] = []
+        interpreter.evaluation.onFramePush(({ frame }) => pushed.push(frame))
+        interpreter.evaluation.onFramePop(({ frame }) => popped.push(frame))
+
+        interpreter.send('train', trainer())
+
+        pushed.should.not.be.empty
+        popped.should.have.members(pushed)
+        pushed.some(frame => frame.description === 'hooks.Bird.fly(distance)').should.be.true
+      })
+
+      it('should keep the listeners on copies and stop notifying removed listeners', () => {
+        const sends: string[] = []
+        const removeListener = interpreter.evaluation.onSend(({ message }) => sends.push(message))
+
+        const fork = interpreter.fork()
+        removeListener()
+        interpreter.send('train', trainer())
+        fork.send('train', fork.object('hooks.trainer'))
+
+        sends.should.include('fly')
+        sends.should.have.length(sends.filter((message, index) => sends.indexOf(message) === index).length)
+      })
+
+    })
+
+    describe('stack frames', () => {
+
+      const environment = buildEnvironment([{
+        name: 'stack.wlk', content: [
+          'object pilot {',
+          '  method crash(altitude) {',
+          '    return [altitude].map { value => value / 0 }',
+          '  }',
+          '  method rethrow() {',
+          '    const error = new DomainException(message = "early")',
+          '    return self.raise(error)',
+          '  }',
+          '  method raise(error) {',
+          '    throw error',
+          '  }',
+          '  method wrap() {',
+          '    try {',
+          '      self.rethrow()',
+          '    } catch e: DomainException {',
+          '      throw new DomainException(message = "wrapped", cause = e)',
+          '    }',
+          '  }',
+          '}',
+        ].join('\n'),
+      }])
+
+      let interpreter: Interpreter
+      beforeEach(() => {
+        interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+      })
+
+      const failure = (message: string, ...args: number[]) => failureOf(interpreter, 'stack.pilot', message, ...args)
+
+      it('should describe every frame of the stack, innermost first', () => {
+        const { stackFrames } = failure('crash', 10)
+
+        const crash = stackFrames.find(frame => frame.fullyQualifiedName === 'stack.pilot.crash')!
+        crash.should.include({ description: 'stack.pilot.crash(altitude)', arity: 1, fileName: 'stack.wlk', isCustom: true })
+        crash.sourceMap!.start.line.should.equal(3)
+        crash.sourceMap!.start.column.should.be.a('number')
+        stackFrames.some(frame => frame.fullyQualifiedName === 'wollok.lang.Collection.map' && !frame.isCustom).should.be.true
+        stackFrames.indexOf(crash).should.equal(stackFrames.length - 1)
+      })
+
+      it('should derive the Wollok stack from the user code frames', () => {
+        const error = failure('crash', 10)
+
+        error.wollokStack.split('\n').should.deep.equal(error.stackFrames
+          .filter(frame => frame.isCustom)
+          .map(frame => `\tat ${frame.description} [stack.wlk:${frame.sourceMap!.start.line}]`))
+      })
+
+      it('should keep the stack of the place where the exception was created', () => {
+        const error = failure('rethrow')
+        const { stackFrames } = error
+
+        stackFrames[0].fullyQualifiedName!.should.equal('stack.pilot.rethrow')
+        stackFrames[0].sourceMap!.start.line.should.equal(6)
+        new WollokException(error.evaluation, error.instance.copy(new Map())).stackFrames.should.deep.equal(stackFrames)
+      })
+
+      it('should include the stack of the causes', () => {
+        const error = failure('wrap')
+
+        const lines = error.wollokStack.split('\n')
+        const cause = lines.indexOf('Caused by: wollok.lang.DomainException: early')
+        cause.should.be.above(0)
+        lines[cause + 1].should.equal('\tat stack.pilot.rethrow() [stack.wlk:6]')
+      })
+
+    })
+
   })
 
   describe('interpret API function', () => {
@@ -667,6 +1089,74 @@ describe('Wollok Interpreter', () => {
       expect(errored).to.be.false
     })
 
+    describe('definitions', () => {
+
+      it('should define classes', () => {
+        checkSuccessfulResult('class Bird { var energy = 10 method energy() = energy }', '')
+        checkSuccessfulResult('new Bird().energy()', '10')
+      })
+
+      it('should define named objects', () => {
+        checkSuccessfulResult('object pepita { method fly() = "flying" }', '')
+        checkSuccessfulResult('pepita.fly()', '"flying"')
+        interpreter.evaluation.environment.replNode().members.map(member => member.name).should.include('pepita')
+      })
+
+      it('should define mixins', () => {
+        checkSuccessfulResult('mixin Flies { method fly() = "flying" }', '')
+        checkSuccessfulResult('object pepita inherits Flies {}', '')
+        checkSuccessfulResult('pepita.fly()', '"flying"')
+      })
+
+      it('should still evaluate anonymous objects', () => {
+        checkSuccessfulResult('object { method fly() = 1 }.fly()', '1')
+        interpreter.evaluation.environment.replNode().members.should.be.empty
+      })
+
+      it('should make redefinitions take effect for later sentences', () => {
+        checkSuccessfulResult('class Bird { method sound() = "tweet" }', '')
+        checkSuccessfulResult('const tweety = new Bird()', '')
+        checkSuccessfulResult('class Bird { method sound() = "squawk" }', '')
+        checkSuccessfulResult('new Bird().sound()', '"squawk"')
+        checkSuccessfulResult('tweety.sound()', '"tweet"')
+        interpreter.evaluation.environment.replNode().members.should.have.length(1)
+      })
+
+      it('should make redefinitions take effect for the entities that reference them', () => {
+        checkSuccessfulResult('class Bird { method sound() = "tweet" }', '')
+        checkSuccessfulResult('object pepita inherits Bird {}', '')
+        checkSuccessfulResult('object aviary { method bird() = new Bird() }', '')
+        checkSuccessfulResult('class Bird { method sound() = "squawk" }', '')
+        checkSuccessfulResult('aviary.bird().sound()', '"squawk"')
+      })
+
+      it('should fail for unknown supertypes without defining the entity', () => {
+        checkFailedResult('object pepita inherits Bird {}', 'Unknown reference Bird')
+        interpreter.evaluation.environment.replNode().members.should.be.empty
+      })
+
+      it('should report errors on the initialization of named objects', () => {
+        checkFailedResult('object pepita { method initialize() { 1 / 0 } }', 'Evaluation Error!')
+      })
+
+      it('should not define named objects that fail to initialize', () => {
+        checkFailedResult('object pepita { method initialize() { 1 / 0 } }', 'Evaluation Error!')
+        interpreter.evaluation.environment.replNode().members.should.be.empty
+        checkFailedResult('pepita', 'Unknown reference pepita')
+      })
+
+      it('should keep the previous definition of named objects whose redefinition fails to initialize', () => {
+        checkSuccessfulResult('object pepita { var energy = 1 method fly() { energy += 1 } method energy() = energy }', '')
+        checkSuccessfulResult('pepita.fly()', '')
+        checkSuccessfulResult('object aviary { method energy() = pepita.energy() }', '')
+        checkFailedResult('object pepita { method initialize() { 1 / 0 } method energy() = 0 }', 'Evaluation Error!')
+        checkSuccessfulResult('pepita.energy()', '2')
+        checkSuccessfulResult('aviary.energy()', '2')
+        interpreter.evaluation.environment.replNode().members.should.have.length(2)
+      })
+
+    })
+
   })
 
   describe('DirectedInterpreter', () => {
@@ -694,6 +1184,665 @@ describe('Wollok Interpreter', () => {
       state.should.have.property('next').equal(breakpoint)
     })
 
+    it('should finish as aborted when resumed after the signal is aborted', () => {
+      const environment = buildEnvironment([{
+        name: 'counter.wpgm', content: `
+          program main {
+            var count = 0
+            (1..10).forEach({ i => count += i })
+          }
+        `,
+      }])
+      const assignment = environment.getNodeByFQN<Package>('counter').members[0] as Node
+      const breakpoint = assignment.descendants.find(node => node.is(Literal) && node.value === 1)!
+      const controller = new AbortController()
+      const interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives)).withSignal(controller.signal)
+      const director = interpreter.run('counter.main')
+      director.breakpoints.push(breakpoint)
+
+      director.resume().done.should.be.false
+      controller.abort()
+      const state = director.resume()
+
+      state.done.should.be.true
+      state.aborted!.should.be.instanceOf(ExecutionAbortedError)
+      interpreter.evaluation.frameStack.should.have.length(1)
+    })
+
+    describe('breakpoint options', () => {
+
+      const environment = buildEnvironment([{
+        name: 'birds.wpgm', content: `
+          object pepita {
+            var energy = 0
+            method eat(grams) {
+              energy = energy + grams
+            }
+          }
+          program main {
+            [1, 2, 3, 4, 5].forEach({ grams => pepita.eat(grams) })
+          }
+        `,
+      }])
+      const assignment = environment.getNodeByFQN<Singleton>('birds.pepita').lookupMethod('eat', 1)!.sentences[0]
+
+      let interpreter: DirectedInterpreter
+      beforeEach(() => {
+        interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+      })
+
+      const haltedGrams = (director: ExecutionDirector<void>): number[] => {
+        const grams: number[] = []
+        let state = director.resume()
+        while (!state.done) {
+          grams.push(interpreter.evaluation.currentFrame.get('grams')!.innerNumber!)
+          state = director.resume()
+        }
+        return grams
+      }
+
+      it('should only halt when the condition holds in the paused frame', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { condition: 'grams > 3 && energy > 5' })
+
+        haltedGrams(director).should.deep.equal([4, 5])
+      })
+
+      it('should halt on errors evaluating the condition', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { condition: 'grams.fly()' })
+
+        haltedGrams(director).should.deep.equal([1, 2, 3, 4, 5])
+      })
+
+      it('should halt on conditions that go over the debugger limits, without counting them for the execution', () => {
+        interpreter.evaluation.limits = { maxSteps: 1000 }
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { condition: '(1 .. 1000000).forEach { i => i }' })
+
+        director.resume().done.should.be.false
+        interpreter.evaluation.currentFrame.get('grams')!.innerNumber!.should.equal(1)
+        director.removeBreakpoint(assignment)
+        director.finish().should.not.have.property('error')
+        interpreter.evaluation.limits.should.deep.equal({ maxSteps: 1000 })
+      })
+
+      it('should halt from the given number of hits on', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { hitCondition: 4 })
+
+        haltedGrams(director).should.deep.equal([4, 5])
+        director.hitCount(assignment).should.equal(5)
+      })
+
+      it('should support operators in hit conditions', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { hitCondition: '% 2' })
+
+        haltedGrams(director).should.deep.equal([2, 4])
+      })
+
+      it('should reject invalid hit conditions when adding the breakpoint', () => {
+        const director = interpreter.run('birds.main')
+
+        expect(() => director.addBreakpoint(assignment, { hitCondition: 'every 2' })).to.throw('Invalid hit condition: every 2')
+        director.breakpoints.should.be.empty
+      })
+
+      it('should only count the hits where the condition holds', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { condition: 'grams > 1', hitCondition: '== 2' })
+
+        haltedGrams(director).should.deep.equal([3])
+      })
+
+      it('should log interpolated messages instead of halting on logpoints', () => {
+        const logs: string[] = []
+        interpreter.evaluation.console = { ...console, log: (message: string) => logs.push(message) }
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { logMessage: 'eating {grams} with {energy}{missing}', condition: 'grams.even()' })
+
+        haltedGrams(director).should.be.empty
+        logs.should.deep.equal([
+          'eating 2 with 1<error: Could not resolve reference to missing>',
+          'eating 4 with 6<error: Could not resolve reference to missing>',
+        ])
+      })
+
+      it('should forget the options of removed breakpoints', () => {
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { hitCondition: 5 })
+        director.removeBreakpoint(assignment)
+        director.addBreakpoint(assignment)
+
+        haltedGrams(director).should.deep.equal([1, 2, 3, 4, 5])
+      })
+
+      it('should unlink the expressions of breakpoints that are removed or change their options', () => {
+        const logs: string[] = []
+        interpreter.evaluation.console = { ...console, log: (message: string) => logs.push(message) }
+        const nodes = environment.nodeCache.size
+        const director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment, { condition: 'grams > 1' })
+        director.resume()
+        environment.nodeCache.size.should.be.above(nodes)
+
+        director.addBreakpoint(assignment, { condition: 'grams > 2', logMessage: 'eating {grams}' })
+        director.resume()
+        logs.should.deep.equal(['eating 3', 'eating 4', 'eating 5'])
+        director.removeBreakpoint(assignment)
+
+        environment.nodeCache.size.should.equal(nodes)
+      })
+
+    })
+
+    describe('evaluateInFrame', () => {
+
+      const environment = buildEnvironment([{
+        name: 'birds.wpgm', content: `
+          class Bird {
+            var energy = 10
+            var tiredness = 0
+            method fly(distance) {
+              const cost = distance * 2
+              energy = energy - cost
+              tiredness = tiredness + cost
+            }
+            method rest() { tiredness = 100 }
+          }
+          program main {
+            const bird = new Bird()
+            bird.fly(3)
+          }
+        `,
+      }])
+      const assignment = environment.getNodeByFQN<Class>('birds.Bird').lookupMethod('fly', 1)!.sentences[1]
+
+      let interpreter: DirectedInterpreter
+      let director: ExecutionDirector<void>
+      beforeEach(() => {
+        interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+        director = interpreter.run('birds.main')
+        director.addBreakpoint(assignment)
+        director.resume()
+      })
+
+      const evaluate = (expression: string, options = {}) => director.evaluateInFrame(interpreter.evaluation.currentFrame, expression, options)
+
+      it('should resolve parameters, locals, fields and self in the paused frame', () => {
+        evaluate('cost + distance + energy').result.should.equal('19')
+        evaluate('self.className()').result.should.equal('"birds.Bird"')
+      })
+
+      it('should not keep the evaluated expressions in the environment', () => {
+        const { size } = environment.nodeCache
+        evaluate('cost + distance').errored.should.be.false
+        evaluate('missing + 1').errored.should.be.true
+
+        environment.nodeCache.size.should.equal(size)
+      })
+
+      it('should not change the paused execution by default', () => {
+        const bird = interpreter.evaluation.currentFrame.get('self')!
+        evaluate('self.rest()').errored.should.be.false
+
+        evaluate('tiredness').result.should.equal('0')
+        director.finish()
+        bird.get('tiredness')!.innerNumber!.should.equal(6)
+      })
+
+      it('should keep side effects when asked to', () => {
+        const bird = interpreter.evaluation.currentFrame.get('self')!
+        evaluate('self.rest()', { keepSideEffects: true })
+
+        evaluate('tiredness').result.should.equal('100')
+        director.finish()
+        bird.get('tiredness')!.innerNumber!.should.equal(106)
+      })
+
+      it('should print where the paused evaluation prints', () => {
+        const logs: string[] = []
+        interpreter.evaluation.console = { ...console, log: (message: string) => logs.push(message) }
+
+        evaluate('console.println(cost)').errored.should.be.false
+        logs.should.deep.equal(['6'])
+      })
+
+      it('should stop expressions that never end at the debugger limits', () => {
+        const { errored, error } = evaluate('(1 .. 1000000).forEach { i => cost + i }')
+        errored.should.be.true
+        error!.message.should.contain('Execution exceeded the limit of 100000 steps')
+        director.finish().should.not.have.property('error')
+      })
+
+      it('should be aborted with the paused execution', () => {
+        const controller = new AbortController()
+        const abortable = interpreter.withSignal(controller.signal).run('birds.main')
+        abortable.addBreakpoint(assignment)
+        abortable.resume()
+        controller.abort()
+
+        abortable.evaluateInFrame(interpreter.evaluation.currentFrame, 'cost').result.should.equal('Execution aborted')
+      })
+
+      it('should evaluate in frames other than the current one', () => {
+        const [, programFrame] = interpreter.evaluation.frameStack
+
+        director.evaluateInFrame(programFrame, 'bird.className()').result.should.equal('"birds.Bird"')
+        director.evaluateInFrame(programFrame, 'distance').should.deep.include({ errored: true, result: 'Unknown reference distance' })
+      })
+
+      it('should report errors', () => {
+        evaluate('cost +').errored.should.be.true
+        const { errored, error } = evaluate('cost.fly()')
+        errored.should.be.true
+        error!.name.should.equal('wollok.lang.MessageNotUnderstoodException')
+      })
+
+    })
+
+    describe('history', () => {
+
+      const environment = buildEnvironment([{
+        name: 'birds.wpgm', content: `
+          object pepita {
+            var property energy = 0
+            method eat(grams) {
+              energy = energy + grams
+            }
+          }
+          program main {
+            [1, 2, 3].forEach({ grams => pepita.eat(grams) })
+            console.println(pepita.energy())
+          }
+        `,
+      }])
+      const assignment = environment.getNodeByFQN<Singleton>('birds.pepita').lookupMethod('eat', 1)!.sentences[0]
+
+      let interpreter: DirectedInterpreter
+      let director: ExecutionDirector<void>
+      let logs: string[]
+      beforeEach(() => {
+        logs = []
+        interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+        interpreter.evaluation.console = { ...console, log: (message: string) => logs.push(message) }
+        director = interpreter.run('birds.main')
+        director.recordHistory()
+        director.addBreakpoint(assignment)
+      })
+
+      const energy = () => interpreter.object('birds.pepita').get('energy')!.innerNumber
+      const grams = () => interpreter.evaluation.currentFrame.get('grams')!.innerNumber
+
+      it('should go back to the previous breakpoint restoring the state', () => {
+        director.resume()
+        director.resume()
+        energy()!.should.equal(1)
+        grams()!.should.equal(2)
+
+        const state = director.reverseContinue()
+
+        state.should.have.property('next').equal(assignment)
+        energy()!.should.equal(0)
+        grams()!.should.equal(1)
+      })
+
+      it('should step back one node at a time', () => {
+        director.resume()
+        const step = director.currentStep
+        director.stepIn()
+
+        director.stepBack().should.have.property('next').equal(assignment)
+        director.currentStep.should.equal(step)
+
+        director.stepBack().should.have.property('next').not.equal(assignment)
+        director.currentStep.should.equal(step - 1)
+      })
+
+      it('should jump to any step, forwards and backwards', () => {
+        const visited: Node[] = []
+        let state = director.stepIn()
+        while (!state.done) {
+          visited.push(state.next)
+          state = director.stepIn()
+        }
+
+        director.jumpToStep(5).should.have.property('next').equal(visited[4])
+        director.jumpToStep(12).should.have.property('next').equal(visited[11])
+        director.jumpToStep(3).should.have.property('next').equal(visited[2])
+      })
+
+      it('should run the steps past the history as if resumed, halting at breakpoints and showing their output', () => {
+        director.jumpToStep(1000).should.have.property('next').equal(assignment)
+        grams()!.should.equal(1)
+
+        director.removeBreakpoint(assignment)
+        director.jumpToStep(1000).should.deep.equal({ done: true, result: undefined })
+        logs.should.deep.equal(['6'])
+
+        director.jumpToStep(1000).should.deep.equal({ done: true, result: undefined })
+        logs.should.deep.equal(['6'])
+      })
+
+      it('should continue normally after going back, without repeating side effects while replaying', () => {
+        director.finish()
+        logs.should.deep.equal(['6'])
+
+        director.reverseContinue()
+        grams()!.should.equal(3)
+
+        director.removeBreakpoint(assignment)
+        director.finish().should.deep.equal({ done: true, result: undefined })
+        logs.should.deep.equal(['6', '6'])
+      })
+
+      it('should not emit events while replaying the steps that already ran', () => {
+        const coverage = new CoverageCollector(environment).attach(interpreter.evaluation)
+        const messages: string[] = []
+        interpreter.evaluation.onSend(({ message }) => messages.push(message))
+        director.removeBreakpoint(assignment)
+        director.finish()
+        const sent = [...messages]
+
+        director.jumpToStep(1)
+        director.jumpToStep(1000)
+
+        coverage.hitsOf(assignment).should.equal(3)
+        messages.should.deep.equal(sent)
+      })
+
+      it('should restore the hit counts of the breakpoints with the state', () => {
+        director.removeBreakpoint(assignment)
+        director.addBreakpoint(assignment, { hitCondition: '== 2' })
+        director.resume().should.have.property('next').equal(assignment)
+        grams()!.should.equal(2)
+
+        director.jumpToStep(1)
+        director.hitCount(assignment).should.equal(0)
+        director.resume().should.have.property('next').equal(assignment)
+        grams()!.should.equal(2)
+
+        director.reverseContinue()
+        director.hitCount(assignment).should.equal(1)
+        director.finish()
+        director.hitCount(assignment).should.equal(3)
+      })
+
+      it('should read the same lines again when replaying the steps that read them', () => {
+        const reading = buildEnvironment([{
+          name: 'greeting.wpgm', content: `
+            program main {
+              const name = console.readLine()
+              console.println("hello " + name)
+            }
+          `,
+        }])
+        const readingInterpreter = new DirectedInterpreter(Evaluation.build(reading, WRENatives, { input: new QueueInput(['alice', 'bob']) }))
+        const reader = readingInterpreter.run('greeting.main')
+        reader.recordHistory()
+        const name = () => readingInterpreter.evaluation.currentFrame.get('name')?.innerString
+
+        while (!name()) reader.stepIn()
+        const step = reader.currentStep
+        name()!.should.equal('alice')
+
+        reader.jumpToStep(1)
+        reader.jumpToStep(step)
+        name()!.should.equal('alice')
+
+        reader.jumpToStep(1)
+        while (!name()) reader.stepIn()
+        name()!.should.equal('alice')
+        readingInterpreter.evaluation.input.readLine()!.should.equal('bob')
+      })
+
+      it('should only remember the configured number of steps', () => {
+        const limited = new DirectedInterpreter(Evaluation.build(environment, WRENatives)).run('birds.main')
+        limited.recordHistory({ maxSteps: 3 })
+        limited.addBreakpoint(assignment)
+        limited.resume()
+        limited.stepIn()
+        limited.stepIn()
+        limited.stepIn()
+        limited.stepIn()
+
+        limited.reverseContinue().should.have.property('next').not.equal(assignment)
+        limited.currentStep.should.equal(1)
+      })
+
+      it('should fail to go back if the history is not being recorded', () => {
+        const other = interpreter.run('birds.main')
+        other.resume()
+
+        expect(() => other.stepBack()).to.throw('Execution history is not being recorded')
+        expect(() => other.recordHistory()).to.throw('Execution history can only be recorded from the start of the execution')
+      })
+
+    })
+
+    describe('break on exceptions', () => {
+
+      const environment = buildEnvironment([{
+        name: 'birds.wpgm', content: `
+          object pepita {
+            method fly() { throw new DomainException(message = "tired") }
+            method safeFly() {
+              try { self.fly() } catch e: DomainException { return 0 }
+              return 1
+            }
+            method wrongFly() {
+              try { self.fly() } catch e: MessageNotUnderstoodException { return 0 }
+              return 1
+            }
+          }
+          program caught { pepita.safeFly() }
+          program uncaught { pepita.fly() }
+          program wronglyCaught { pepita.wrongFly() }
+          program native { 1 / 0 }
+        `,
+      }])
+
+      const run = (programFQN: string, mode: ExceptionBreakMode) => {
+        const interpreter = new DirectedInterpreter(Evaluation.build(environment, WRENatives))
+        const director = interpreter.run(programFQN)
+        director.breakOnExceptions = mode
+        return { director, evaluation: interpreter.evaluation }
+      }
+
+      it('should not halt on exceptions by default', () => {
+        const { director } = run('birds.uncaught', 'none')
+
+        const state = director.resume()
+
+        state.done.should.be.true
+        state.error!.instance.module.fullyQualifiedName.should.equal('wollok.lang.DomainException')
+      })
+
+      it('should halt on every thrown exception, with the stack intact', () => {
+        const { director, evaluation } = run('birds.caught', 'all')
+
+        const state = director.resume()
+
+        state.done.should.be.false
+        state.should.have.nested.property('next.kind').equal('Throw')
+        state.exception!.instance.module.fullyQualifiedName.should.equal('wollok.lang.DomainException')
+        evaluation.frameStack.map(frame => frame.description).should.deep.equal(['root', 'birds.caught', 'birds.pepita.safeFly()', 'Try', 'birds.pepita.fly()'])
+        director.resume().should.deep.equal({ done: true, result: undefined })
+      })
+
+      it('should only halt on uncaught exceptions when asked to', () => {
+        run('birds.caught', 'uncaught').director.resume().should.deep.equal({ done: true, result: undefined })
+
+        const { director } = run('birds.uncaught', 'uncaught')
+        const state = director.resume()
+        state.done.should.be.false
+        state.exception!.instance.module.fullyQualifiedName.should.equal('wollok.lang.DomainException')
+
+        const finalState = director.resume()
+        finalState.done.should.be.true
+        finalState.error!.instance.should.equal(state.exception!.instance)
+      })
+
+      it('should consider the type of the catch handlers', () => {
+        const state = run('birds.wronglyCaught', 'uncaught').director.resume()
+
+        state.done.should.be.false
+        state.exception!.instance.module.fullyQualifiedName.should.equal('wollok.lang.DomainException')
+      })
+
+      it('should halt on failures of natives', () => {
+        const { director, evaluation } = run('birds.native', 'all')
+
+        const state = director.resume()
+
+        state.done.should.be.false
+        state.exception!.instance.module.fullyQualifiedName.should.equal('wollok.lang.EvaluationError')
+        evaluation.currentFrame.description.should.equal('wollok.lang.Number./(other)')
+      })
+
+      it('should not halt twice when stepping through a throw', () => {
+        const { director } = run('birds.uncaught', 'none')
+
+        const steps: string[] = []
+        let state = director.stepIn()
+        while (!state.done) {
+          steps.push(state.next.kind)
+          state = director.stepIn()
+        }
+
+        steps.filter(kind => kind === 'Throw').should.have.length(1)
+      })
+
+    })
+
+  })
+
+  describe('AsyncInterpreter', () => {
+
+    const environment = buildEnvironment([{
+      name: 'async.wlk', content: `
+        object host {
+          method fetch(key) native
+          method fetchAll(keys) = keys.map { key => self.fetch(key) }
+          method safeFetch(key) {
+            try {
+              return self.fetch(key)
+            } catch e: EvaluationError {
+              return "missing " + key
+            }
+          }
+          method greet() = "hello " + console.readLine()
+        }
+      `,
+    }])
+
+    const natives: Natives = {
+      ...WRENatives,
+      async: {
+        host: {
+          *fetch(_self: RuntimeObject, key: RuntimeObject): Execution<RuntimeValue> {
+            const value: string = yield new Promise<string>((resolve, reject) => setTimeout(() =>
+              key.innerString === 'unknown' ? reject(new Error(`unknown key ${key.innerString}`)) : resolve(key.innerString!.toUpperCase())
+            ))
+            return yield* this.reify(value)
+          },
+        },
+      },
+    }
+
+    const asyncInterpreter = (input?: InputProvider) => new AsyncInterpreter(Evaluation.build(environment, natives, { input }))
+
+    it('should await the promises yielded by natives', async () => {
+      const interpreter = asyncInterpreter()
+
+      const keys = await interpreter.list(await interpreter.reify('a'), await interpreter.reify('b'))
+      const result = await interpreter.send('fetchAll', interpreter.object('async.host'), keys)
+
+      result!.innerCollection!.map(element => element.innerString).should.deep.equal(['A', 'B'])
+    })
+
+    it('should raise rejected promises as Wollok exceptions', async () => {
+      const interpreter = asyncInterpreter()
+      const host = interpreter.object('async.host')
+
+      const key = await interpreter.reify('unknown')
+      const error = await interpreter.send('fetch', host, key).catch(error => error)
+      const recovered = await interpreter.send('safeFetch', host, key)
+
+      error.should.be.instanceOf(WollokException)
+      error.message.should.contain('unknown key unknown')
+      recovered!.innerString!.should.equal('missing unknown')
+    })
+
+    it('should wait for asynchronous input', async () => {
+      const interpreter = asyncInterpreter({ readLine: () => Promise.resolve('world') })
+
+      const greeting = await interpreter.send('greet', interpreter.object('async.host'))
+
+      greeting!.innerString!.should.equal('hello world')
+    })
+
+    it('should stop listening to input streams when each execution ends', async () => {
+      const stream = new PassThrough()
+      const interpreter = asyncInterpreter(new StreamInput(stream))
+      const host = interpreter.object('async.host')
+
+      const firstGreeting = interpreter.send('greet', host)
+      stream.write('world\nagain\n')
+      const first = await firstGreeting
+      first!.innerString!.should.equal('hello world')
+      stream.listenerCount('data').should.equal(0)
+      stream.isPaused().should.be.true
+
+      const secondGreeting = interpreter.send('greet', host)
+      stream.write('unread\n')
+      const second = await secondGreeting
+      second!.innerString!.should.equal('hello again')
+      stream.listenerCount('data').should.equal(0)
+    })
+
+    it('should keep running synchronous natives', async () => {
+      const interpreter = asyncInterpreter()
+
+      const numbers = await interpreter.list(await interpreter.reify(1), await interpreter.reify(3), await interpreter.reify(2))
+      const result = await interpreter.send('max', numbers)
+      result!.innerNumber!.should.equal(3)
+    })
+
+    it('should not start an execution before the previous one is over', async () => {
+      const interpreter = asyncInterpreter()
+      const host = interpreter.object('async.host')
+
+      const key = await interpreter.reify('a')
+      const first = interpreter.send('fetch', host, key)
+      const error = await interpreter.send('fetch', host, key).catch(error => error)
+
+      const result = await first
+
+      error.message.should.contain('previous one is over')
+      result!.innerString!.should.equal('A')
+    })
+
+    it('should abort executions waiting for a promise', async () => {
+      const controller = new AbortController()
+      const interpreter = asyncInterpreter({ readLine: () => new Promise<string>(() => undefined) }).withSignal(controller.signal)
+
+      const greeting = interpreter.send('greet', interpreter.object('async.host')).catch(error => error)
+      setTimeout(() => controller.abort())
+      const error = await greeting
+
+      error.should.be.instanceOf(ExecutionAbortedError)
+      interpreter.evaluation.frameStack.should.have.length(1)
+    })
+
+    it('should fail on synchronous interpreters', () => {
+      const interpreter = new Interpreter(Evaluation.build(environment, natives))
+
+      expect(() => interpreter.send('fetch', interpreter.object('async.host'), interpreter.reify('a')))
+        .to.throw(WollokException, 'only wait for promises when run by an asynchronous interpreter')
+    })
+
   })
 
 })
\ No newline at end of file
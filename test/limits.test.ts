@@ -0,0 +1,108 @@
+import { should } from 'chai'
+import { buildEnvironment, Evaluation, Interpreter, WRENatives } from '../src'
+import { failure as failureOf } from './utils'
+
+should()
+
+describe('limits', () => {
+
+  const environment = buildEnvironment([{
+    name: 'limits.wlk', content: `
+      class Bird {}
+      object limits {
+        var property birds = []
+        method sum(n) {
+          var total = 0
+          (1..n).forEach { i => total += i }
+          return total
+        }
+        method dive(depth) = self.dive(depth + 1)
+        method safeDive() {
+          try {
+            return self.dive(0)
+          } catch e: StackOverflowException {
+            return "too deep"
+          }
+        }
+        method safeSum(n) {
+          try {
+            return self.sum(n)
+          } catch e {
+            return "too long"
+          }
+        }
+        method hatch(n) { (1..n).forEach { i => birds.add(new Bird()) } }
+        method hatchAndForget(n) { (1..n).forEach { i => new Bird() } }
+      }
+    `,
+  }])
+
+  let interpreter: Interpreter
+  beforeEach(() => {
+    interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+  })
+
+  const send = (message: string, ...args: number[]) =>
+    interpreter.send(message, interpreter.object('limits.limits'), ...args.map(arg => interpreter.reify(arg)))
+
+  const failure = (message: string, ...args: number[]) => failureOf(interpreter, 'limits.limits', message, ...args)
+
+  it('should raise an evaluation error when an execution takes too many steps', () => {
+    interpreter.evaluation.limits = { maxSteps: 1000 }
+
+    const error = failure('sum', 1000)
+    error.instance.module.fullyQualifiedName.should.equal('wollok.lang.EvaluationError')
+    error.message.should.contain('Execution exceeded the limit of 1000 steps')
+  })
+
+  it('should raise a single evaluation error when the steps run out', () => {
+    interpreter.evaluation.limits = { maxSteps: 1000 }
+    let errors = 0
+    interpreter.evaluation.onInstantiate(({ instance }) => { if (instance.module.fullyQualifiedName === 'wollok.lang.EvaluationError') errors++ })
+
+    failure('sum', 1000).message.should.not.contain('Could not retrieve Wollok stack')
+    errors.should.equal(1)
+  })
+
+  it('should count the steps of each execution separately', () => {
+    interpreter.evaluation.limits = { maxSteps: 1000 }
+
+    send('sum', 10)!.innerNumber!.should.equal(55)
+    send('sum', 10)!.innerNumber!.should.equal(55)
+  })
+
+  it('should not let exhausted executions go on by catching the exception', () => {
+    interpreter.evaluation.limits = { maxSteps: 1000 }
+
+    failure('safeSum', 1000).message.should.contain('Execution exceeded the limit of 1000 steps')
+  })
+
+  it('should raise an evaluation error when an execution takes too long', () => {
+    interpreter.evaluation.limits = { timeout: 20 }
+
+    failure('sum', 10_000_000).message.should.contain('Execution exceeded the timeout of 20ms')
+  })
+
+  it('should raise a catchable stack overflow when the stack gets too deep', () => {
+    interpreter.evaluation.limits = { maxStackDepth: 100 }
+
+    const error = failure('dive', 0)
+    error.instance.module.fullyQualifiedName.should.equal('wollok.lang.StackOverflowException')
+    error.message.should.contain('Execution exceeded the limit of 100 stack frames')
+    send('safeDive')!.innerString!.should.equal('too deep')
+  })
+
+  it('should raise an evaluation error when too many instances are alive', () => {
+    interpreter.evaluation.limits = { maxInstances: 300 }
+
+    send('hatchAndForget', 500)
+    failure('hatch', 500).message.should.contain('Execution exceeded the limit of 300 live instances')
+  })
+
+  it('should keep the limits on copies', () => {
+    interpreter.evaluation.limits = { maxSteps: 1000 }
+
+    interpreter.fork().evaluation.limits.should.deep.equal({ maxSteps: 1000 })
+  })
+
+})
\ No newline at end of file
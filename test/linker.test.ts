@@ -1,7 +1,7 @@
 import { expect, should, use } from 'chai'
 import { GAME_MODULE, OBJECT_MODULE } from '../src'
 import { getPotentiallyUninitializedLazy } from '../src/decorators'
-import link, { canBeReferenced, linkSentenceInNode } from '../src/linker'
+import link, { canBeReferenced, linkSentenceInNode, relink, relinkEntity, restoreEntity } from '../src/linker'
 import { Body, Class, Closure, Describe, Environment, Field, Import, Method, Mixin, NamedArgument, Node, Package, Parameter, ParameterizedType, Reference, Return, Sentence, Singleton, Test, Variable, Literal } from '../src/model'
 import * as parse from '../src/parser'
 import { linkerAssertions } from './assertions'
@@ -927,4 +927,143 @@ describe('link sentence in node', () => {
     variableName.should.be.equal('a')
   })
 
+})
+
+describe('deterministic ids', () => {
+  const files = () => [
+    parse.File('a/birds.wlk').tryParse('class Bird { method fly() = 1 method fly(n) = n }'),
+    parse.File('a/pepita.wlk').tryParse('import a.birds.Bird\nobject pepita inherits Bird { var energy = 0 }'),
+  ]
+  const idsOf = (environment: Environment) => environment.descendants.map(node => node.id)
+
+  it('should produce the same ids when linking the same sources', () => {
+    idsOf(link(files(), WREEnvironment, { deterministicIds: true })).should.deep.equal(idsOf(link(files(), WREEnvironment, { deterministicIds: true })))
+  })
+
+  it('should produce a different id for each node', () => {
+    const ids = idsOf(link(files(), WREEnvironment, { deterministicIds: true }))
+    new Set(ids).size.should.equal(ids.length)
+  })
+
+  it('should not change the ids of nodes unrelated to an edit', () => {
+    const before = link(files(), WREEnvironment, { deterministicIds: true })
+    const after = link([files()[0], parse.File('a/pepita.wlk').tryParse('import a.birds.Bird\nobject pepita inherits Bird { var energy = 100 }')], WREEnvironment, { deterministicIds: true })
+
+    after.getNodeByFQN('a.birds.Bird').id.should.equal(before.getNodeByFQN('a.birds.Bird').id)
+    after.getNodeByFQN<Singleton>('a.pepita.pepita').fields[0].id.should.equal(before.getNodeByFQN<Singleton>('a.pepita.pepita').fields[0].id)
+  })
+
+  it('should produce the same ids on relink as on a full link', () => {
+    const environment = link(files(), WREEnvironment, { deterministicIds: true })
+    const pepita = relink(environment, 'a/pepita.wlk', files()[1], { deterministicIds: true })
+
+    idsOf(environment).should.deep.equal(idsOf(link(files(), WREEnvironment, { deterministicIds: true })))
+    environment.getNodeById(pepita.id).should.equal(pepita)
+  })
+
+})
+
+describe('relink', () => {
+  const parseFile = (fileName: string, content: string) => parse.File(fileName).tryParse(content)
+  let environment: Environment
+
+  beforeEach(() => {
+    environment = link([
+      parseFile('a/birds.wlk', 'class Bird { method fly() = 1 }'),
+      parseFile('a/pepita.wlk', 'import a.birds.Bird\nobject pepita inherits Bird { }'),
+      parseFile('other.wlk', 'object other { }'),
+    ], WREEnvironment)
+  })
+
+  it('should replace the package of the file', () => {
+    const previousBird = environment.getNodeByFQN<Class>('a.birds.Bird')
+
+    const birds = relink(environment, 'a/birds.wlk', parseFile('a/birds.wlk', 'class Bird { method fly() = 2 } class Parrot inherits Bird { }'))
+
+    birds.parent.should.equal(environment.getNodeByFQN('a'))
+    environment.getNodeByFQN('a.birds').should.equal(birds)
+    environment.getNodeByFQN('a.birds.Parrot').parent.should.equal(birds)
+    environment.getNodeByFQN('a.birds.Bird').should.not.equal(previousBird)
+    expect(() => environment.getNodeById(previousBird.id)).to.throw()
+    environment.getNodeById(birds.id).should.equal(birds)
+  })
+
+  it('should relink the packages that depend on the replaced file', () => {
+    relink(environment, 'a/birds.wlk', parseFile('a/birds.wlk', 'class Bird { method fly() = 2 method eat() = 3 }'))
+
+    const bird = environment.getNodeByFQN<Class>('a.birds.Bird')
+    const pepita = environment.getNodeByFQN<Singleton>('a.pepita.pepita')
+    pepita.superclass.should.equal(bird)
+    pepita.lookupMethod('eat', 0)!.parent.should.equal(bird)
+  })
+
+  it('should not relink the packages that do not depend on the replaced file', () => {
+    const other = environment.getNodeByFQN<Singleton>('other.other')
+    const otherScope = other.scope
+
+    relink(environment, 'a/birds.wlk', parseFile('a/birds.wlk', 'class Bird { }'))
+
+    environment.getNodeByFQN('other.other').should.equal(other)
+    other.scope.should.equal(otherScope)
+  })
+
+  it('should add files that were not linked before', () => {
+    const parrot = relink(environment, 'b/parrot.wlk', parseFile('b/parrot.wlk', 'import a.birds.Bird\nclass Parrot inherits Bird { }'))
+
+    parrot.fullyQualifiedName.should.equal('b.parrot')
+    environment.getNodeByFQN<Class>('b.parrot.Parrot').superclass!.should.equal(environment.getNodeByFQN('a.birds.Bird'))
+  })
+
+})
+
+describe('relinkEntity', () => {
+  let environment: Environment
+
+  beforeEach(() => {
+    environment = link([
+      parse.File('birds.wlk').tryParse('class Bird { method fly() = 1 }\nobject pepita inherits Bird { }\nobject other { }'),
+    ], WREEnvironment)
+  })
+
+  it('should replace the member with the same name, relinking the members that depend on it', () => {
+    const birds = environment.getNodeByFQN<Package>('birds')
+    const previousBird = environment.getNodeByFQN<Class>('birds.Bird')
+    const pepita = environment.getNodeByFQN<Singleton>('birds.pepita')
+    const other = environment.getNodeByFQN<Singleton>('birds.other')
+    const otherScope = other.scope
+
+    const bird = relinkEntity(environment, birds, parse.Class.tryParse('class Bird { method fly() = 2 }'))
+
+    birds.members.should.deep.equal([bird, pepita, other])
+    environment.getNodeByFQN('birds.Bird').should.equal(bird)
+    expect(() => environment.getNodeById(previousBird.id)).to.throw()
+    pepita.superclass!.should.equal(bird)
+    other.scope.should.equal(otherScope)
+  })
+
+  it('should add the entity if the package has no member with its name', () => {
+    const birds = environment.getNodeByFQN<Package>('birds')
+
+    const parrot = relinkEntity(environment, birds, parse.Class.tryParse('class Parrot inherits Bird { }'))
+
+    environment.getNodeByFQN('birds.Parrot').should.equal(parrot)
+    parrot.superclass!.should.equal(environment.getNodeByFQN('birds.Bird'))
+  })
+
+  it('should restore the replaced member, or remove the added entity', () => {
+    const birds = environment.getNodeByFQN<Package>('birds')
+    const previousBird = environment.getNodeByFQN<Class>('birds.Bird')
+    const pepita = environment.getNodeByFQN<Singleton>('birds.pepita')
+
+    restoreEntity(environment, birds, relinkEntity(environment, birds, parse.Class.tryParse('class Bird { method fly() = 2 }')), previousBird)
+    const parrot = relinkEntity(environment, birds, parse.Class.tryParse('class Parrot { }'))
+    restoreEntity(environment, birds, parrot)
+
+    birds.members.should.deep.equal([previousBird, pepita, environment.getNodeByFQN('birds.other')])
+    environment.getNodeById(previousBird.id).should.equal(previousBird)
+    pepita.superclass!.should.equal(previousBird)
+    expect(environment.getNodeOrUndefinedByFQN('birds.Parrot')).to.be.undefined
+    expect(() => environment.getNodeById(parrot.id)).to.throw()
+  })
+
 })
\ No newline at end of file
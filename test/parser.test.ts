@@ -400,6 +400,73 @@ describe('Wollok parser', () => {
   })
 
 
+  describe('Incremental parsing', () => {
+    const content = `import p
+
+class A {
+  method m() = 1
+}
+
+object b {
+  var x = 2
+}
+
+// c is commented
+class C inherits A {}
+`
+    const previous = parse.File('foo.wlk').tryParse(content)
+    const reparse = (...edits: parse.TextEdit[]) => parse.reparseFile(previous, content, edits)
+    const at = (text: string) => content.indexOf(text)
+
+    it('should produce the same package than parsing the edited file from scratch', () => {
+      const edits = [
+        { range: { start: at('1'), end: at('1') + 1 }, text: '10 + 20' },
+        { range: { start: at('2'), end: at('2') + 1 }, text: '3\n  method y() {}' },
+      ]
+
+      reparse(...edits).should.deep.equal(parse.File('foo.wlk').tryParse(parse.applyTextEdits(content, edits)))
+    })
+
+    it('should reuse the entities before the edit', () => {
+      const reparsed = reparse({ range: { start: at('2'), end: at('2') + 1 }, text: '3' })
+
+      reparsed.members[0].should.equal(previous.members[0])
+      reparsed.members[1].should.not.equal(previous.members[1])
+    })
+
+    it('should shift the source maps of the entities after the edit', () => {
+      const edit = { range: { start: at('1'), end: at('1') + 1 }, text: '1\n  method n() = 2' }
+      const reparsed = reparse(edit)
+
+      reparsed.should.deep.equal(parse.File('foo.wlk').tryParse(parse.applyTextEdits(content, [edit])))
+      const shifted = reparsed.members[1]
+      shifted.sourceMap!.start.offset.should.equal(previous.members[1].sourceMap!.start.offset + 17)
+      shifted.sourceMap!.start.line.should.equal(previous.members[1].sourceMap!.start.line + 1)
+      shifted.sourceMap!.start.column.should.equal(previous.members[1].sourceMap!.start.column)
+    })
+
+    it('should reparse the entities whose leading comments were edited', () => {
+      const edits = [{ range: { start: at('commented'), end: at('commented') + 9 }, text: 'documented' }]
+
+      reparse(...edits).should.deep.equal(parse.File('foo.wlk').tryParse(parse.applyTextEdits(content, edits)))
+    })
+
+    it('should fallback to a full parse when the imports are edited', () => {
+      const edits = [{ range: { start: at('p'), end: at('p') + 1 }, text: 'q' }]
+
+      reparse(...edits).should.deep.equal(parse.File('foo.wlk').tryParse(parse.applyTextEdits(content, edits)))
+    })
+
+    it('should keep the dir packages of nested files', () => {
+      const nested = parse.File('a/foo.wlk').tryParse(content)
+      const edits = [{ range: { start: at('2'), end: at('2') + 1 }, text: '3' }]
+
+      parse.reparseFile(nested, content, edits).should.deep.equal(parse.File('a/foo.wlk').tryParse(parse.applyTextEdits(content, edits)))
+    })
+
+  })
+
+
   describe('Imports', () => {
 
     const parser = parse.Import
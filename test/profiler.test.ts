@@ -0,0 +1,82 @@
+import { should } from 'chai'
+import { buildEnvironment, Evaluation, Interpreter, Profiler, WRENatives } from '../src'
+
+should()
+
+describe('profiler', () => {
+
+  const environment = buildEnvironment([{
+    name: 'profiling.wlk', content: [
+      'object shop {',
+      '  method price(item) = item * 2',
+      '  method total(items) = items.sum { item => self.price(item) }',
+      '  method factorial(n) = if (n <= 1) 1 else n * self.factorial(n - 1)',
+      '}',
+    ].join('\n'),
+  }])
+
+  let profiler: Profiler
+  let interpreter: Interpreter
+  beforeEach(() => {
+    interpreter = new Interpreter(Evaluation.build(environment, WRENatives))
+    profiler = new Profiler().attach(interpreter.evaluation)
+  })
+
+  const total = () => interpreter.send('total', interpreter.object('profiling.shop'), interpreter.list(...[1, 2, 3].map(value => interpreter.reify(value))))
+
+  it('should count the calls and call edges of each method', () => {
+    total()
+
+    profiler.profileOf('profiling.shop.total/1')!.calls.should.equal(1)
+    profiler.profileOf('profiling.shop.price/1')!.calls.should.equal(3)
+    profiler.edges().filter(({ callee }) => callee === 'profiling.shop.price/1').reduce((calls, edge) => calls + edge.calls, 0).should.equal(3)
+    profiler.edges().filter(({ caller }) => caller === 'profiling.shop.total/1').map(({ callee }) => callee).should.include('wollok.lang.Collection.sum/1')
+  })
+
+  it('should split the steps of each method into inclusive and exclusive ones', () => {
+    total()
+
+    const totalProfile = profiler.profileOf('profiling.shop.total/1')!
+    const exclusiveSteps = profiler.methods().reduce((steps, method) => steps + method.exclusiveSteps, 0)
+    totalProfile.inclusiveSteps.should.equal(exclusiveSteps)
+    totalProfile.exclusiveSteps.should.be.below(totalProfile.inclusiveSteps)
+    profiler.methods().forEach(method => {
+      method.exclusiveSteps.should.be.at.most(method.inclusiveSteps)
+      method.exclusiveTime.should.be.at.most(method.inclusiveTime + 1e-9)
+    })
+  })
+
+  it('should count recursive calls once in the inclusive steps', () => {
+    interpreter.send('factorial', interpreter.object('profiling.shop'), interpreter.reify(5))
+
+    const factorial = profiler.profileOf('profiling.shop.factorial/1')!
+    factorial.calls.should.equal(5)
+    factorial.inclusiveSteps.should.equal(profiler.methods().reduce((steps, method) => steps + method.exclusiveSteps, 0))
+    profiler.edges().find(({ caller, callee }) => caller === callee)!.calls.should.equal(4)
+  })
+
+  it('should export the call tree as a cpuprofile', () => {
+    total()
+
+    const { nodes, samples, timeDeltas, startTime, endTime } = profiler.toCpuProfile()
+    const price = nodes.find(node => node.callFrame.functionName === 'profiling.shop.price(item)')!
+    nodes[0].callFrame.functionName.should.equal('(root)')
+    price.callFrame.url.should.equal('profiling.wlk')
+    price.callFrame.lineNumber.should.equal(1)
+    nodes.reduce((steps, node) => steps + node.hitCount, 0).should.equal(profiler.profileOf('profiling.shop.total/1')!.inclusiveSteps)
+    samples.should.have.length(timeDeltas.length)
+    samples.every(sample => nodes.some(node => node.id === sample)).should.be.true
+    endTime.should.be.at.least(startTime)
+  })
+
+  it('should report the methods that took the most steps', () => {
+    total()
+
+    const [header, first, ...rest] = profiler.report({ top: 2 }).split('\n')
+    header.should.match(/^Method +Calls +Self steps +Total steps +Self ms +Total ms$/)
+    rest.should.have.length(1)
+    const mostSteps = Math.max(...profiler.methods().map(method => method.exclusiveSteps))
+    first.split(/\s{2,}/)[2].should.equal(`${mostSteps}`)
+  })
+
+})
\ No newline at end of file
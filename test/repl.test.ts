@@ -0,0 +1,253 @@
+import { should } from 'chai'
+import { buildEnvironment, Evaluation, Interpreter, isIncompleteInput, link, List, Package, REPL, REPL_COMMANDS, REPLSession, WRENatives } from '../src'
+import { WREEnvironment } from './utils'
+
+should()
+
+describe('REPL', () => {
+  let interpreter: Interpreter
+
+  beforeEach(() => {
+    interpreter = new Interpreter(Evaluation.build(link([new Package({ name: REPL })], WREEnvironment), WRENatives))
+  })
+
+  describe('session', () => {
+    let session: REPLSession
+
+    beforeEach(() => {
+      session = new REPLSession(interpreter)
+    })
+
+    it('should run complete lines right away', () => {
+      session.input('1 + 2').should.deep.equal({ result: '3', errored: false, pending: false })
+    })
+
+    it('should buffer lines until braces are balanced', () => {
+      session.input('class Bird {').pending.should.be.true
+      session.input('  method fly() {').pending.should.be.true
+      session.input('    return "flying"').pending.should.be.true
+      session.input('  }').pending.should.be.true
+      session.isPending.should.be.true
+      session.input('}').should.deep.equal({ result: '', errored: false, pending: false })
+      session.isPending.should.be.false
+      session.input('new Bird().fly()').result.should.equal('"flying"')
+    })
+
+    it('should buffer lines that end with an operator', () => {
+      session.input('1 +').pending.should.be.true
+      session.input('2 *').pending.should.be.true
+      session.pendingInput.should.equal('1 +\n2 *')
+      session.input('3').result.should.equal('7')
+    })
+
+    it('should not be fooled by delimiters in strings and comments', () => {
+      session.input('"{" + /* } */ "("').result.should.equal('"{("')
+      session.input('[1, /* ] */ 2').pending.should.be.true
+      session.input(']').result.should.equal('[1, 2]')
+    })
+
+    it('should let the parser report extra closing delimiters', () => {
+      const { errored, pending } = session.input('1 + 2)')
+      errored.should.be.true
+      pending.should.be.false
+    })
+
+    it('should discard the buffered lines when cancelled', () => {
+      session.input('object pepita {')
+      session.cancel()
+      session.isPending.should.be.false
+      session.input('2').result.should.equal('2')
+    })
+
+    describe('commands', () => {
+      let birds: string
+
+      const reloadableSession = () => {
+        const buildBirds = () => buildEnvironment([{ name: 'birds.wlk', content: birds }], WREEnvironment)
+        return new REPLSession(new Interpreter(Evaluation.build(link([new Package({ name: REPL })], buildBirds()), WRENatives)), { buildEnvironment: buildBirds })
+      }
+
+      beforeEach(() => {
+        birds = 'class Bird { var property energy = 10 }\nobject pepita { method sound() = "tweet" }'
+      })
+
+      it('should reload the environment from the project files', () => {
+        session = reloadableSession()
+        session.input('import birds.*')
+        birds = 'class Bird { var property energy = 10 }\nobject pepita { method sound() = "squawk" }'
+
+        const { result, errored, output } = session.input(':reload')
+        errored.should.be.false
+        result.should.include('Environment reloaded')
+        output!.command.should.equal('reload')
+        session.input('pepita.sound()').result.should.equal('"squawk"')
+      })
+
+      it('should keep aborting the inputs with the signal of the session after reloading', () => {
+        const controller = new AbortController()
+        const buildBirds = () => buildEnvironment([{ name: 'birds.wlk', content: birds }], WREEnvironment)
+        const interpreter = new Interpreter(Evaluation.build(link([new Package({ name: REPL })], buildBirds()), WRENatives), controller.signal)
+        session = new REPLSession(interpreter, { buildEnvironment: buildBirds })
+
+        session.input(':reload')
+        controller.abort()
+
+        session.input('1 + 2').should.deep.include({ errored: true })
+      })
+
+      it('should keep the REPL variables whose values can be migrated', () => {
+        session = reloadableSession()
+        session.input('import birds.*')
+        session.input('const numbers = [1, 2, 3]')
+        session.input('var bird = new Bird(energy = 5)')
+        session.input('const block = { 1 }')
+        session.input('const bird2 = new Bird()')
+        session.input('const aBird = pepita')
+        birds = 'class Bird { var property energy = 10 var property name = "" }\nobject pepita { }'
+
+        const { output } = session.input(':reload')
+        output!.should.deep.equal({ command: 'reload', migrated: ['numbers', 'aBird'], dropped: ['bird', 'block', 'bird2'], failedDefinitions: [] })
+        session.input('numbers.sum()').result.should.equal('6')
+        session.input('aBird === pepita').result.should.equal('true')
+        session.input('bird').errored.should.be.true
+      })
+
+      it('should keep instances of classes that kept their fields', () => {
+        session = reloadableSession()
+        session.input('import birds.*')
+        session.input('var bird = new Bird(energy = 5)')
+        session.input('const birds = [bird, bird]')
+        birds = 'class Bird { var property energy = 10 method fly() { energy -= 1 } }'
+
+        session.input(':reload').output!.should.deep.include({ migrated: ['bird', 'birds'] })
+        session.input('bird.fly()')
+        session.input('birds.map { aBird => aBird.energy() }').result.should.equal('[4, 4]')
+      })
+
+      it('should drop the REPL variables whose values reach others that can not be migrated', () => {
+        birds = 'class Bird { var property energy = 10 var property food = null }'
+        session = reloadableSession()
+        session.input('import birds.*')
+        session.input('const bird = new Bird(food = { 1 })')
+        session.input('const flock = [bird]')
+        session.input('const cycle = new Bird()')
+        session.input('cycle.food([cycle, { 2 }])')
+
+        session.input(':reload').output!.should.deep.include({ migrated: [], dropped: ['bird', 'flock', 'cycle'] })
+        session.input('flock').errored.should.be.true
+      })
+
+      it('should keep the REPL variables constant or variable', () => {
+        session = reloadableSession()
+        session.input('var variable = 1')
+        session.input('const constant = 1')
+
+        session.input(':reload')
+        session.input('variable = 2').errored.should.be.false
+        session.input('constant = 2').errored.should.be.true
+      })
+
+      it('should define again the entities of the session on reload', () => {
+        session = reloadableSession()
+        session.input('import birds.*')
+        session.input('class Parrot inherits Bird { method talk() = "hello" }')
+        session.input('object polly inherits Parrot { }')
+        birds = 'object pepita { }'
+
+        const { output } = session.input(':reload')
+        output!.should.deep.include({ failedDefinitions: ['class Parrot inherits Bird { method talk() = "hello" }', 'object polly inherits Parrot { }'] })
+        birds = 'class Bird { }'
+        session.input(':reload').output!.should.deep.include({ failedDefinitions: [] })
+        session.input('polly.talk()').result.should.equal('"hello"')
+      })
+
+      it('should not reload sessions without a way to rebuild the environment', () => {
+        const { errored, result } = session.input(':reload')
+        errored.should.be.true
+        result.should.equal('This session can not be reloaded')
+      })
+
+      it('should show the inferred type of expressions', () => {
+        session.input('const number = 1')
+        session.input(':type ["a", "b"].first()').should.deep.equal({
+          result: 'String',
+          errored: false,
+          pending: false,
+          output: { command: 'type', expression: '["a", "b"].first()', type: 'String' },
+        })
+        session.input(':type [number + 1]').result.should.equal('List<Number>')
+        session.input(':type 1 +').errored.should.be.true
+      })
+
+      it('should list the commands', () => {
+        const { result, output } = session.input(':help')
+        output!.should.deep.equal({ command: 'help', commands: REPL_COMMANDS })
+        result.should.include(':type <expression>')
+      })
+
+      it('should list the previous inputs', () => {
+        session.input('1 +')
+        session.input('2')
+        session.input(':help')
+        session.input(':history').should.deep.equal({
+          result: '1  1 +\n2\n2  :help',
+          errored: false,
+          pending: false,
+          output: { command: 'history', entries: ['1 +\n2', ':help'] },
+        })
+      })
+
+      it('should clear the pending input', () => {
+        session.input('[1,')
+        session.input(':clear').should.deep.equal({ result: '', errored: false, pending: false, output: { command: 'clear' } })
+        session.isPending.should.be.false
+        session.input('2').result.should.equal('2')
+      })
+
+      it('should dump the dynamic diagram', () => {
+        session.input('const numbers = [1]')
+        const { result, output } = session.input(':diagram')
+        output!.command.should.equal('diagram')
+        const { elements } = output as { elements: List<{ label: string }> }
+        elements.map(element => element.label).should.include('numbers')
+        result.should.equal(JSON.stringify(elements, undefined, 2))
+      })
+
+      it('should fail for unknown commands', () => {
+        const { errored, result } = session.input(':quit now')
+        errored.should.be.true
+        result.should.equal('Unknown command :quit. Type :help to list the available commands')
+      })
+
+    })
+
+  })
+
+  describe('incomplete input', () => {
+
+    it('should be incomplete with unclosed delimiters, strings or comments', () => {
+      isIncompleteInput('[1, 2').should.be.true
+      isIncompleteInput('pepita.fly(').should.be.true
+      isIncompleteInput('"hello').should.be.true
+      isIncompleteInput('1 /* comment').should.be.true
+    })
+
+    it('should be incomplete with trailing operators', () => {
+      isIncompleteInput('a and').should.be.true
+      isIncompleteInput('const a =').should.be.true
+      isIncompleteInput('pepita.').should.be.true
+      isIncompleteInput('1 + // comment').should.be.true
+    })
+
+    it('should be complete otherwise', () => {
+      isIncompleteInput('1 + 2').should.be.false
+      isIncompleteInput('band').should.be.false
+      isIncompleteInput('"a +"').should.be.false
+      isIncompleteInput('"escaped \\" quote"').should.be.false
+      isIncompleteInput('object pepita { }').should.be.false
+      isIncompleteInput('import wollok.game.*').should.be.false
+    })
+
+  })
+
+})
\ No newline at end of file
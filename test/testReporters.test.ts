@@ -0,0 +1,68 @@
+import { should } from 'chai'
+import { buildEnvironment, runTests, toJUnitXML, toTAP } from '../src'
+
+should()
+
+describe('test reporters', () => {
+
+  const results = runTests(buildEnvironment([{
+    name: 'birds.wtest', content: `
+      object pepita { var property energy = 100 }
+
+      describe "pepita" {
+        test "has energy" { assert.equals(100, pepita.energy()) }
+        test "is <tired>" { assert.equals(0, pepita.energy()) }
+        test "breaks" { pepita.fly() }
+      }
+
+      test "top level" { assert.that(true) }
+    `,
+  }]))
+
+  it('should map describes to JUnit test suites and tests to test cases', () => {
+    const report = toJUnitXML(results)
+
+    report.should.match(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites tests="4" failures="1" errors="1" time="[\d.]+">/)
+    report.should.match(/<testsuite name="birds.pepita" tests="3" failures="1" errors="1" time="[\d.]+" file="birds.wtest">/)
+    report.should.match(/<testcase name="has energy" classname="birds.pepita" file="birds.wtest" line="5" time="[\d.]+"\/>/)
+    report.should.match(/<testsuite name="birds" tests="1" failures="0" errors="0" time="[\d.]+" file="birds.wtest">/)
+  })
+
+  it('should include escaped failure messages and stacks in JUnit reports', () => {
+    const report = toJUnitXML(results)
+
+    report.should.contain('<testcase name="is &lt;tired&gt;" classname="birds.pepita" file="birds.wtest" line="6"')
+    report.should.contain('<failure message="Expected &lt;0&gt; but found &lt;100&gt;" type="wollok.lib.AssertionException">wollok.lib.AssertionException: Expected &lt;0&gt; but found &lt;100&gt;\n  at birds.&quot;pepita&quot;.&quot;is &lt;tired&gt;&quot; [birds.wtest:6]</failure>')
+    report.should.contain('<error message="pepita does not understand fly()" type="wollok.lang.MessageNotUnderstoodException">')
+  })
+
+  it('should render TAP 13 reports with diagnostics for failed tests', () => {
+    toTAP(results).should.equal([
+      'TAP version 13',
+      '1..4',
+      '# birds.pepita',
+      'ok 1 - birds.pepita > has energy',
+      'not ok 2 - birds.pepita > is <tired>',
+      '  ---',
+      '  message: "Expected <0> but found <100>"',
+      '  severity: fail',
+      '  at: "birds.wtest:6"',
+      '  stack: |-',
+      '    wollok.lib.AssertionException: Expected <0> but found <100>',
+      '      at birds."pepita"."is <tired>" [birds.wtest:6]',
+      '  ...',
+      'not ok 3 - birds.pepita > breaks',
+      '  ---',
+      '  message: "pepita does not understand fly()"',
+      '  severity: error',
+      '  at: "birds.wtest:7"',
+      '  stack: |-',
+      '    wollok.lang.MessageNotUnderstoodException: pepita does not understand fly()',
+      '      at birds."pepita"."breaks" [birds.wtest:7]',
+      '  ...',
+      '# birds',
+      'ok 4 - birds > top level',
+    ].join('\n'))
+  })
+
+})
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { should } from 'chai'
+import { buildEnvironment, Natives, runTests, SeededRandom, WRENatives } from '../src'
+
+should()
+
+describe('runTests', () => {
+
+  const environment = buildEnvironment([{
+    name: 'birds.wtest', content: `
+      object pepita { var property energy = 100 }
+
+      describe "pepita" {
+        test "has energy" { assert.equals(100, pepita.energy()) }
+        test "is tired" { assert.equals(0, pepita.energy()) }
+        test "breaks" { pepita.fly() }
+      }
+
+      test "top level" { assert.that(true) }
+    `,
+  }])
+
+  it('should report the result of every test', () => {
+    const { results, passed, failed, errored } = runTests(environment)
+
+    results.map(({ test, status }) => [test.name, status]).should.deep.equal([
+      ['"has energy"', 'passed'],
+      ['"is tired"', 'failed'],
+      ['"breaks"', 'errored'],
+      ['"top level"', 'passed'],
+    ])
+    passed.should.equal(2)
+    failed.should.equal(1)
+    errored.should.equal(1)
+  })
+
+  it('should report the path, location and Wollok stack of failed tests', () => {
+    const { results: [, tired] } = runTests(environment)
+
+    tired.path.should.deep.equal(['birds', '"pepita"'])
+    tired.fileName!.should.equal('birds.wtest')
+    tired.sourceMap!.start.line.should.equal(6)
+    tired.wollokStack!.should.contain('birds.wtest')
+    tired.error!.name.should.equal('wollok.lib.AssertionException')
+  })
+
+  it('should run each test on a fresh fork of the interpreter', () => {
+    const mutating = buildEnvironment([{
+      name: 'energy.wtest', content: `
+        object pepita { var property energy = 100 }
+        test "first" { pepita.energy(0) }
+        test "second" { assert.equals(100, pepita.energy()) }
+      `,
+    }])
+
+    runTests(mutating).passed.should.equal(2)
+  })
+
+  it('should only run the tests matching the filter', () => {
+    runTests(environment, { filter: '"pepita" "is' }).results.map(({ test }) => test.name).should.deep.equal(['"is tired"'])
+    runTests(environment, { filter: test => test.name.includes('top') }).results.map(({ test }) => test.name).should.deep.equal(['"top level"'])
+  })
+
+  it('should honour tests marked as only', () => {
+    const onlyEnvironment = buildEnvironment([{
+      name: 'only.wtest', content: `
+        describe "d" {
+          test "a" { }
+          only test "b" { }
+        }
+      `,
+    }])
+
+    runTests(onlyEnvironment).results.map(({ test }) => test.name).should.deep.equal(['"b"'])
+    runTests(onlyEnvironment, { only: false }).results.map(({ test }) => test.name).should.deep.equal(['"a"', '"b"'])
+  })
+
+  it('should start every test from the same random state of the given seed', () => {
+    const expected = Math.floor(new SeededRandom(7).next() * 1000)
+    const randomEnvironment = buildEnvironment([{
+      name: 'dice.wtest', content: `
+        test "first" { assert.equals(${expected}, 0.randomUpTo(1000).truncate(0)) }
+        test "second" { assert.equals(${expected}, 0.randomUpTo(1000).truncate(0)) }
+      `,
+    }])
+
+    const { passed, seed } = runTests(randomEnvironment, { seed: 7 })
+    passed.should.equal(2)
+    seed!.should.equal(7)
+    runTests(randomEnvironment).seed!.should.be.a('number')
+  })
+
+  it('should stop the run when the signal is aborted', () => {
+    const controller = new AbortController()
+    const stoppingEnvironment = buildEnvironment([{
+      name: 'stop.wtest', content: `
+        object stopper { method stop() native }
+        test "first" { }
+        test "second" {
+          stopper.stop()
+          assert.that(true)
+        }
+        test "third" { }
+      `,
+    }])
+    const natives: Natives = { ...WRENatives, stop: { stopper: { *stop() { controller.abort() } } } }
+
+    const { results, aborted } = runTests(stoppingEnvironment, { natives, signal: controller.signal })
+    aborted.should.be.true
+    results.map(({ test }) => test.name).should.deep.equal(['"first"'])
+    runTests(stoppingEnvironment).aborted.should.be.false
+  })
+
+})
\ No newline at end of file
@@ -2,7 +2,7 @@ import { fail } from 'assert'
 import { readFileSync } from 'fs'
 import globby from 'globby'
 import { join } from 'path'
-import { Annotation, buildEnvironment, Class, Environment, FileContent, fromJSON, link, Literal, Node, Package, Problem, PROGRAM_FILE_EXTENSION, Reference, SourceMap, TEST_FILE_EXTENSION, WOLLOK_FILE_EXTENSION } from '../src'
+import { Annotation, buildEnvironment, Class, Environment, FileContent, fromJSON, Interpreter, link, Literal, Name, Node, Package, Problem, PROGRAM_FILE_EXTENSION, Reference, SourceMap, TEST_FILE_EXTENSION, WOLLOK_FILE_EXTENSION, WollokException } from '../src'
 import { divideOn, List, notEmpty } from '../src/extensions'
 import wre from '../src/wre/wre.json'
 
@@ -98,6 +98,17 @@ const newPackageWith = (env: Environment, fullFQN: string): Package => {
   return buildNewPackages(fullFQN)
 }
 
+/** Wollok exception raised by sending the message to the named object, failing if the send does not raise one. */
+export const failure = (interpreter: Interpreter, receiver: Name, message: string, ...args: number[]): WollokException => {
+  try {
+    interpreter.send(message, interpreter.object(receiver), ...args.map(arg => interpreter.reify(arg)))
+  } catch (error) {
+    if (error instanceof WollokException) return error
+    throw error
+  }
+  throw new Error(`Expected ${receiver}.${message} to fail`)
+}
+
 // TODO: Split uber-tests into smaller tests with clearer descriptions (??)
 // TODO: How about creating FQN for more nodes? Like p.q.C.m(0) ? YES!
 export const WREEnvironment: Environment = fromJSON(wre)
\ No newline at end of file